@@ -0,0 +1,659 @@
+/**
+ * Session relay: role identification, envelope forwarding, the replay journal, heartbeats and the host grace period.
+ * The standalone server (server.js) and the extension's embedded LAN relay both use it, so they speak one protocol.
+ */
+const { URL } = require('url');
+const { promisify } = require('util');
+const crypto = require('crypto');
+const WebSocket = require('ws');
+
+const DEFAULT_HOST_GRACE_PERIOD_MS = 60000;
+
+// Session codes avoid ambiguous characters (I, O, 0, 1) and read as ABC-DEF
+const SESSION_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function generateSessionCode() {
+  let result = '';
+  for (let i = 0; i < 6; i++) {
+    result += SESSION_CODE_CHARS.charAt(crypto.randomInt(SESSION_CODE_CHARS.length));
+  }
+  return `${result.substring(0, 3)}-${result.substring(3, 6)}`;
+}
+
+const scrypt = promisify(crypto.scrypt);
+
+/**
+ * Passphrases are kept only as a salted scrypt hash and compared in constant time. Hashing runs on the thread pool,
+ * so checking a passphrase does not hold up other sessions.
+ */
+async function hashPassphrase(passphrase, salt = crypto.randomBytes(16)) {
+  return { salt, hash: await scrypt(passphrase, salt, 32) };
+}
+
+async function checkPassphrase(stored, passphrase) {
+  if (!stored) return true;
+  if (typeof passphrase !== 'string') return false;
+  return crypto.timingSafeEqual(stored.hash, (await hashPassphrase(passphrase, stored.salt)).hash);
+}
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Compare a presented token with the expected one in constant time. Both are hashed first, so their lengths match.
+ */
+function tokenMatches(expected, presented) {
+  if (typeof presented !== 'string') return false;
+  return crypto.timingSafeEqual(Buffer.from(hashToken(presented)), Buffer.from(hashToken(expected)));
+}
+
+// Every forwarded envelope gets the session's next sequence number and is kept in a bounded journal,
+// so a client that reconnects with the last sequence number it saw can be replayed what it missed.
+const JOURNAL_MAX_ENTRIES = 2000;
+const JOURNAL_MAX_BYTES = 16 * 1024 * 1024;
+
+/**
+ * State of one relayed session, held by its code until the host claims it.
+ */
+function createSession(passphraseHash) {
+  return {
+    hostWs: null,
+    // Handed to the host only; presenting it is the sole way to take over the host role
+    hostToken: crypto.randomBytes(32).toString('hex'),
+    // Until the host claims the code no guest is admitted
+    reserved: true,
+    // Guests the host admitted from the lobby; only they receive the host's messages.
+    // Kept across reconnects so a returning guest does not wait in the lobby again.
+    admitted: new Set(),
+    // Guest participant id -> hash of the resume secret issued with it. Only the holder of the secret
+    // can connect as that participant again, so a known id cannot be taken over.
+    guestSecrets: new Map(),
+    // Participant ids of guests the host removed. The ban covers only that id: a removed guest can still connect
+    // under a new id, which lands in the host's lobby like any newcomer.
+    banned: new Set(),
+    passphrase: passphraseHash,
+    // Ends the session when no host holds it: an unclaimed reservation, or a host that did not reconnect
+    hostGraceTimer: null,
+    guests: new Map(),
+    seq: 0,
+    journal: [],
+    journalBytes: 0
+  };
+}
+
+/**
+ * Record a sequenced envelope for the role that receives it, dropping the oldest entries past the bounds.
+ */
+function appendToJournal(session, seq, recipientRole, strMessage) {
+  session.journal.push({ seq, recipientRole, strMessage });
+  session.journalBytes += strMessage.length;
+  while (session.journal.length > JOURNAL_MAX_ENTRIES || (session.journalBytes > JOURNAL_MAX_BYTES && session.journal.length > 1)) {
+    session.journalBytes -= session.journal.shift().strMessage.length;
+  }
+}
+
+/**
+ * The envelopes for `role` sequenced after `lastSeq`, in order. Returns null when some of them were already dropped
+ * from the journal, or the sequence number belongs to an earlier session; the client needs a full snapshot then.
+ */
+function missedEnvelopes(session, role, lastSeq) {
+  const oldestSeq = session.journal.length > 0 ? session.journal[0].seq : session.seq + 1;
+  if (lastSeq > session.seq || lastSeq < oldestSeq - 1) return null;
+  return session.journal
+    .filter((entry) => entry.seq > lastSeq && entry.recipientRole === role)
+    .map((entry) => entry.strMessage);
+}
+
+/**
+ * Bind a guest to a participant id. An id seen for the first time is issued a resume secret; an id already
+ * in use is only given to a client presenting that secret. Returns null when the id is refused.
+ */
+function claimGuestId(session, participantId, resumeSecret) {
+  const stored = session.guestSecrets.get(participantId);
+  if (!stored) {
+    const secret = crypto.randomBytes(32).toString('hex');
+    session.guestSecrets.set(participantId, hashToken(secret));
+    return { resumeSecret: secret };
+  }
+  if (typeof resumeSecret !== 'string') return null;
+  const presented = Buffer.from(hashToken(resumeSecret));
+  return crypto.timingSafeEqual(presented, Buffer.from(stored)) ? {} : null;
+}
+
+/**
+ * Decide whether a guest that passed the passphrase check may join as `participantId`. Returns the refusal
+ * ({ code, message }) or { admitted, resumeSecret }, where admitted is false while the guest waits in the lobby.
+ */
+function admitGuestIdentity(session, participantId, resumeSecret) {
+  if (session.banned.has(participantId)) {
+    return { code: 'banned', message: 'The host removed you from this session.' };
+  }
+  const claim = claimGuestId(session, participantId, resumeSecret);
+  if (!claim) {
+    return { code: 'participant-id-taken', message: 'Another participant is using this identity.' };
+  }
+  return { admitted: session.admitted.has(participantId), resumeSecret: claim.resumeSecret };
+}
+
+/**
+ * A guest in the lobby may only introduce itself until the host admits it.
+ */
+function acceptsGuestMessage(session, participantId, type) {
+  return type === 'hello-guest' || !session || session.admitted.has(participantId);
+}
+
+/**
+ * Drop a guest from the session's state, banning its participant id when asked. Returns its connection entry, if any.
+ */
+function revokeGuest(session, targetId, ban) {
+  session.admitted.delete(targetId);
+  if (ban) session.banned.add(targetId);
+  const target = session.guests.get(targetId);
+  session.guests.delete(targetId);
+  return target;
+}
+
+/**
+ * Relay sessions over an existing WebSocket server.
+ * Options: hostGracePeriodMs - how long a session outlives a dropped host connection.
+ */
+function attachRelay(wss, options = {}) {
+  // sessionId -> { hostWs: WebSocket, guests: Map<participantId, WebSocket>, seq, journal, journalBytes }
+  const sessions = new Map();
+
+  // A reserved code is held this long for its host to connect and claim it
+  const RESERVATION_TTL_MS = 60000;
+
+  // Wrong passphrases are limited per session and per client address, so a passphrase cannot be guessed
+  // by trying many. Reservations are limited per client address, since each one hashes a passphrase and
+  // holds a code. Counts start over once their window has passed.
+  const ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+  const MAX_PASSPHRASE_FAILURES_PER_SESSION = 20;
+  const MAX_PASSPHRASE_FAILURES_PER_ADDRESS = 5;
+  const MAX_RESERVATIONS_PER_ADDRESS = 10;
+  // 'session:<code>' or 'address:<ip>' for wrong passphrases, 'reserve:<ip>' for reservations -> { count, since }
+  const attemptCounts = new Map();
+
+  // Liveness traffic is neither sequenced nor journaled: replaying it after a reconnect would be meaningless
+  const UNJOURNALED_TYPES = new Set(['heartbeat', 'heartbeat-ack']);
+
+  // Protocol-level ping: a socket that has not answered the previous ping is terminated, which clears
+  // half-open connections and announces the participant as left
+  const PING_INTERVAL_MS = 30000;
+
+  // After the host's connection drops, the session stays open this long for the host to reclaim it
+  // with its reconnect token. Guests stay connected and are told the host is reconnecting.
+  const HOST_GRACE_PERIOD_MS = options.hostGracePeriodMs || DEFAULT_HOST_GRACE_PERIOD_MS;
+
+  /**
+   * Reserve a new, unused session code. The host then connects to it presenting the returned host token.
+   */
+  async function reserveSession(passphrase) {
+    const passphraseHash = passphrase ? await hashPassphrase(passphrase) : null;
+    let sessionId = generateSessionCode();
+    while (sessions.has(sessionId)) sessionId = generateSessionCode();
+    const session = createSession(passphraseHash);
+    sessions.set(sessionId, session);
+    session.hostGraceTimer = setTimeout(() => {
+      console.log(`[Relay] Reservation of session ${sessionId} was not claimed. Releasing it.`);
+      endSession(sessionId, 'The session was never started.');
+    }, RESERVATION_TTL_MS);
+    console.log(`[Relay] Reserved session ${sessionId}${session.passphrase ? ' (passphrase required)' : ''}`);
+    return { sessionId, hostToken: session.hostToken };
+  }
+
+  /**
+   * Tell every guest the session is over and forget it.
+   */
+  function endSession(sessionId, message) {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    if (session.hostGraceTimer) clearTimeout(session.hostGraceTimer);
+    for (const guest of session.guests.values()) {
+      safeSend(guest.ws, { type: 'session-ended', message });
+      guest.ws.close();
+    }
+    sessions.delete(sessionId);
+  }
+
+  /**
+   * Replay the envelopes a reconnecting client missed, or tell it to fetch a full snapshot when they are gone.
+   */
+  function replayJournal(ws, session, role, lastSeq) {
+    const missed = missedEnvelopes(session, role, lastSeq);
+    if (!missed) {
+      console.log(`[Relay] Cannot replay from seq ${lastSeq} (journal ends at ${session.seq}); snapshot required`);
+      safeSend(ws, { type: 'snapshot-required', lastSeq, seq: session.seq });
+      return;
+    }
+    for (const strMessage of missed) {
+      if (ws.readyState === WebSocket.OPEN) ws.send(strMessage);
+    }
+    console.log(`[Relay] Replayed ${missed.length} envelope(s) after seq ${lastSeq} to ${role}`);
+  }
+
+  /**
+   * Attach metadata safely to a ws
+   */
+  function tagSocket(ws, info) {
+    ws.__cwm = Object.assign({}, ws.__cwm || {}, info);
+  }
+
+  /**
+   * Safe send
+   */
+  const safeSend = (ws, obj) => {
+      if (ws && ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(obj));
+      }
+  };
+
+  /**
+   * Attempts counted under a key in its current window.
+   */
+  function countAttempts(key) {
+    const entry = attemptCounts.get(key);
+    return entry && Date.now() - entry.since < ATTEMPT_WINDOW_MS ? entry.count : 0;
+  }
+
+  function addAttempts(key, delta) {
+    const entry = attemptCounts.get(key);
+    if (entry && Date.now() - entry.since < ATTEMPT_WINDOW_MS) {
+      entry.count += delta;
+    } else if (delta > 0) {
+      attemptCounts.set(key, { count: delta, since: Date.now() });
+    }
+  }
+
+  /**
+   * Check a joining guest's passphrase. The connection is refused when the passphrase is missing or wrong, or when
+   * too many wrong ones were given for the session or from the guest's address. Resolves true when the guest may join.
+   */
+  async function verifyGuestPassphrase(ws, sessionId, session, passphrase, address) {
+    const refuse = (code, message) => {
+      safeSend(ws, { type: 'error', code, message });
+      ws.close();
+      return false;
+    };
+    if (typeof passphrase !== 'string' || !passphrase) {
+      console.log(`[Relay] Guest gave no passphrase for session ${sessionId}.`);
+      return refuse('passphrase-required', 'This session requires a passphrase.');
+    }
+    const limits = [[`session:${sessionId}`, MAX_PASSPHRASE_FAILURES_PER_SESSION], [`address:${address}`, MAX_PASSPHRASE_FAILURES_PER_ADDRESS]];
+    if (limits.some(([key, max]) => countAttempts(key) >= max)) {
+      console.log(`[Relay] Too many wrong passphrases for session ${sessionId} or from ${address}. Refusing.`);
+      return refuse('passphrase-attempts', 'Too many wrong passphrases. Try again in a few minutes.');
+    }
+    // Counted before the check so guesses sent at the same time cannot get past the limit; taken back when right
+    limits.forEach(([key]) => addAttempts(key, 1));
+    if (await checkPassphrase(session.passphrase, passphrase)) {
+      limits.forEach(([key]) => addAttempts(key, -1));
+      return true;
+    }
+    console.log(`[Relay] Guest gave a wrong passphrase for session ${sessionId}.`);
+    return refuse('passphrase-invalid', 'Wrong session passphrase.');
+  }
+
+  /**
+   * Add a guest that passed the passphrase check to the session, in the lobby unless the host admitted it before.
+   */
+  function joinGuest(ws, sessionId, session, data) {
+    const userName = data.userName || 'Guest';
+    const participantId = 'guest-' + (isClientId(data.participantId) ? data.participantId : crypto.randomUUID());
+    const identity = admitGuestIdentity(session, participantId, data.resumeSecret);
+    if (identity.code) {
+      console.log(`[Relay] Refused guest ${participantId} in session ${sessionId}: ${identity.code}`);
+      safeSend(ws, { type: 'error', code: identity.code, message: identity.message });
+      ws.close();
+      return;
+    }
+    const previous = session.guests.get(participantId);
+    if (previous && previous.ws !== ws) retireSocket(previous.ws);
+    session.guests.set(participantId, { ws, userName });
+    tagSocket(ws, { role: 'Guest', participantId, userName });
+    const { admitted } = identity;
+    console.log(`[Relay] Guest ${participantId} (${userName}) ${data.resume ? 'rejoined' : 'joined'} session ${sessionId}${admitted ? '' : ', waiting in the lobby'}`);
+    safeSend(ws, { type: 'session-joined', sessionId, resumed: !!data.resume, admitted, resumeSecret: identity.resumeSecret });
+    if (admitted && data.resume && typeof data.lastSeq === 'number') replayJournal(ws, session, 'Guest', data.lastSeq);
+    // Notify everyone that a new participant has joined
+    broadcast(ws, { type: 'participant-joined', participantId, userName, admitted, resumed: !!data.resume });
+  }
+
+  /**
+   * Take a guest out of the session at the host's request: its connection is closed at once, without announcing
+   * a departure the host already knows about. With `ban`, that participant id cannot join again; the guest can still
+   * connect under a new id, which lands in the host's lobby.
+   */
+  function removeGuest(session, sessionId, targetId, ban) {
+    const target = revokeGuest(session, targetId, ban);
+    if (!target) return;
+    tagSocket(target.ws, { removed: true });
+    try { target.ws.close(4003, 'Removed by the host'); } catch (e) { /* already closed */ }
+    console.log(`[Relay] Removed ${targetId} from session ${sessionId}${ban ? ' and banned it' : ''}`);
+  }
+
+  /**
+   * Clients send a stable id with role-identification so a reconnecting client keeps its participant identity.
+   */
+  const isClientId = (id) => typeof id === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(id);
+
+  /**
+   * A reconnecting client replaces its previous socket, which may not have noticed the connection dropped.
+   * The replaced socket is closed quietly: its close must not end the session or announce a departure.
+   */
+  function retireSocket(oldWs) {
+    if (!oldWs) return;
+    tagSocket(oldWs, { replaced: true });
+    try { oldWs.close(); } catch (e) { /* already closed */ }
+  }
+
+  /**
+   * Broadcast a message to all participants in a session except the sender.
+   */
+  function broadcast(senderWs, message) {
+    const meta = senderWs.__cwm || {};
+    if (!meta.sessionId) return;
+
+    const session = sessions.get(meta.sessionId);
+    if (!session) return;
+
+    let strMessage;
+    if (message && UNJOURNALED_TYPES.has(message.type)) {
+      strMessage = JSON.stringify(message);
+    } else {
+      const seq = ++session.seq;
+      strMessage = JSON.stringify({ ...message, seq });
+      appendToJournal(session, seq, meta.role === 'Host' ? 'Guest' : 'Host', strMessage);
+    }
+
+    const sendMessage = (ws) => {
+      if (ws && ws.readyState === WebSocket.OPEN) {
+          try {
+              ws.send(strMessage);
+          } catch (e) {
+              console.error('[Relay] sendMessage error:', e);
+          }
+      }
+    };
+
+    let recipients = 0;
+    // If sender is the host, send to all admitted guests; guests still in the lobby receive nothing
+    if (meta.role === 'Host') {
+      session.guests.forEach((guest, participantId) => {
+        if (!session.admitted.has(participantId)) return;
+        sendMessage(guest.ws);
+        recipients++;
+      });
+    } else if (meta.role === 'Guest') {
+      // If sender is a guest, ONLY send to the host.
+      // The host is the source of truth and will broadcast back to all guests.
+      if (session.hostWs) { sendMessage(session.hostWs); recipients++; }
+    }
+
+    // Sealed (end-to-end encrypted) messages carry no type, so they are logged by size only
+    if (message && !UNJOURNALED_TYPES.has(message.type)) {
+      console.log(`[Relay] Broadcast ${message.type || `sealed message (${strMessage.length} bytes)`} from ${meta.role} to ${recipients} recipient(s) in session ${meta.sessionId}`);
+    }
+  }
+
+  wss.on('connection', (ws, req) => {
+    console.log('[Relay] New connection from', req.socket.remoteAddress, 'to', req.url);
+    const { pathname } = new URL(req.url, `ws://${req.headers.host}`);
+    const sessionId = pathname.substring(1); // remove leading '/'
+    const address = req.socket.remoteAddress || 'unknown';
+
+    // A connection without a session ID may only reserve a session code
+    if (!sessionId) {
+      ws.once('message', (raw) => {
+        let data;
+        try { data = JSON.parse(raw.toString()); } catch (e) { data = null; }
+        if (!data || data.type !== 'create-session') {
+          ws.close(1008, 'Session ID is required in the URL path.');
+          return;
+        }
+        if (countAttempts(`reserve:${address}`) >= MAX_RESERVATIONS_PER_ADDRESS) {
+          console.log(`[Relay] Too many sessions reserved from ${address}. Refusing.`);
+          safeSend(ws, { type: 'error', code: 'reservation-attempts', message: 'Too many sessions were started. Try again in a few minutes.' });
+          ws.close();
+          return;
+        }
+        addAttempts(`reserve:${address}`, 1);
+        const passphrase = typeof data.passphrase === 'string' && data.passphrase ? data.passphrase : null;
+        reserveSession(passphrase).then((reserved) => {
+          safeSend(ws, { type: 'session-reserved', ...reserved });
+          ws.close(1000);
+        }).catch((e) => {
+          console.error('[Relay] Could not reserve a session:', e);
+          safeSend(ws, { type: 'error', message: 'Could not start a session.' });
+          ws.close();
+        });
+      });
+      return;
+    }
+
+    tagSocket(ws, { sessionId, alive: true });
+    ws.on('pong', () => tagSocket(ws, { alive: true }));
+
+    // Messages that arrive while a guest's passphrase is being checked wait for the outcome, in order
+    let heldMessages = null;
+
+    ws.on('message', (raw) => {
+      let data;
+      try {
+        data = typeof raw === 'string' ? JSON.parse(raw) : JSON.parse(raw.toString());
+      } catch (e) {
+        console.error('[Relay] Non-JSON message dropped');
+        return;
+      }
+      if (heldMessages) {
+        heldMessages.push(data);
+        return;
+      }
+      handleMessage(data);
+    });
+
+    function handleMessage(data) {
+      // The first message should be 'role-identification'
+      if (data.type === 'role-identification') {
+        const { role, userName } = data;
+        const meta = ws.__cwm;
+
+        if (role === 'Host') {
+          const existing = sessions.get(meta.sessionId);
+          const hostId = isClientId(data.participantId) ? 'host-' + data.participantId : null;
+          if (existing && tokenMatches(existing.hostToken, data.hostToken)) {
+            if (existing.reserved) {
+              if (existing.hostGraceTimer) clearTimeout(existing.hostGraceTimer);
+              existing.hostGraceTimer = null;
+              existing.reserved = false;
+              existing.hostWs = ws;
+              tagSocket(ws, { role: 'Host', participantId: hostId || 'host-' + crypto.randomUUID(), userName: userName || 'Host' });
+              console.log(`[Relay] Host ${ws.__cwm.participantId} (${userName}) created session ${meta.sessionId}`);
+              safeSend(ws, { type: 'session-created', sessionId: meta.sessionId, hostToken: existing.hostToken });
+              return;
+            }
+            const wasAway = !existing.hostWs;
+            retireSocket(existing.hostWs);
+            if (existing.hostGraceTimer) clearTimeout(existing.hostGraceTimer);
+            existing.hostGraceTimer = null;
+            existing.hostWs = ws;
+            tagSocket(ws, { role: 'Host', participantId: hostId || 'host-' + crypto.randomUUID(), userName: userName || 'Host' });
+            console.log(`[Relay] Host ${ws.__cwm.participantId} reclaimed session ${meta.sessionId}`);
+            safeSend(ws, { type: 'session-created', sessionId: meta.sessionId, hostToken: existing.hostToken, resumed: true });
+            if (typeof data.lastSeq === 'number') replayJournal(ws, existing, 'Host', data.lastSeq);
+            if (wasAway) broadcast(ws, { type: 'host-reconnected' });
+            return;
+          }
+          // Codes are only handed out by create-session, so a host without the code's token is refused
+          console.log(`[Relay] Host presented no valid token for session ${meta.sessionId}. Closing.`);
+          safeSend(ws, { type: 'error', message: existing ? 'Session already exists.' : 'Session not found' });
+          ws.close();
+          return;
+        } else if (role === 'Guest') {
+          const session = sessions.get(meta.sessionId);
+          if (!session || session.reserved) {
+            console.log(`[Relay] Guest tried to join non-existent session ${meta.sessionId}.`);
+            safeSend(ws, { type: 'error', message: 'Session not found' });
+            ws.close();
+            return;
+          }
+          if (!session.passphrase) {
+            joinGuest(ws, meta.sessionId, session, data);
+            return;
+          }
+          heldMessages = [];
+          verifyGuestPassphrase(ws, meta.sessionId, session, data.passphrase, address)
+            .then((ok) => {
+              // The session may have ended, or the guest left, while the passphrase was checked
+              if (ok && sessions.get(meta.sessionId) === session && ws.readyState === WebSocket.OPEN) {
+                joinGuest(ws, meta.sessionId, session, data);
+              }
+            })
+            .catch((e) => {
+              console.error('[Relay] Passphrase check failed:', e);
+              ws.close();
+            })
+            .finally(() => {
+              const held = heldMessages;
+              heldMessages = null;
+              held.forEach(handleMessage);
+            });
+        }
+        return;
+      }
+
+      // For any other message, broadcast it.
+      const senderMeta = ws.__cwm || {};
+      if (!senderMeta.role) {
+          console.log('[Relay] Message from unidentified client. Dropping.');
+          return;
+      }
+
+      if (senderMeta.role === 'Guest' && !acceptsGuestMessage(sessions.get(senderMeta.sessionId), senderMeta.participantId, data.type)) {
+        return;
+      }
+
+      if (data && data.type === 'file-change') {
+        const fp = data.filePath || data.path || '<unknown>';
+        console.log(`[Relay] Received file-change for ${fp} (rev=${data.revision ?? '?'}, base=${data.baseRevision ?? '-'}) from ${senderMeta.role} ${senderMeta.participantId} in session ${senderMeta.sessionId}`);
+      }
+
+      // Host admitting a guest from the lobby: from now on the guest receives the host's messages
+      if (data && data.type === 'admit-guest' && senderMeta.role === 'Host') {
+        const session = sessions.get(senderMeta.sessionId);
+        const targetId = data.participantId;
+        const target = targetId && session ? session.guests.get(targetId) : null;
+        if (target) {
+          session.admitted.add(targetId);
+          safeSend(target.ws, { type: 'admitted' });
+          console.log(`[Relay] Host admitted ${targetId} to session ${senderMeta.sessionId}`);
+        } else {
+          console.log(`[Relay] admit-guest target not found: ${targetId}`);
+        }
+        return;
+      }
+
+      // Special-case: Host kicking a specific guest goes ONLY to that guest, whose connection the relay then
+      // closes, so a client that ignores the kick stops receiving the session anyway
+      if (data && data.type === 'kick-guest' && senderMeta.role === 'Host') {
+        const targetId = data.participantId || data.guestId;
+        const session = sessions.get(senderMeta.sessionId);
+        if (!targetId || !session) return;
+        const target = session.guests.get(targetId);
+        if (target && target.ws && target.ws.readyState === WebSocket.OPEN) {
+          const payload = {
+            ...data,
+            __relay: true,
+            from: senderMeta.role,
+            participantId: senderMeta.participantId
+          };
+          try { target.ws.send(JSON.stringify(payload)); } catch (e) { console.error('[Relay] kick-guest send error', e); }
+          console.log(`[Relay] Routed kick-guest to ${targetId} in session ${senderMeta.sessionId}`);
+        } else {
+          console.log(`[Relay] kick-guest target not found or not open: ${targetId}`);
+        }
+        removeGuest(session, senderMeta.sessionId, targetId, data.ban === true);
+        return; // do not broadcast to all guests
+      }
+
+      // The relay's fields come last so a client cannot pose as another participant
+      const envelope = {
+        ...data,
+        __relay: true,
+        from: senderMeta.role || 'Unknown',
+        participantId: senderMeta.participantId
+      };
+      broadcast(ws, envelope);
+    }
+
+    ws.on('close', (code) => {
+      const meta = ws.__cwm || {};
+      if (!meta.sessionId || meta.replaced || meta.removed) return;
+
+      const session = sessions.get(meta.sessionId);
+      if (!session) return;
+
+      if (meta.role === 'Host') {
+        // A normal close means the host stopped the session; anything else may be a dropped connection
+        if (code === 1000) {
+          console.log(`[Relay] Host of session ${meta.sessionId} left. Closing session.`);
+          endSession(meta.sessionId, 'Host has left the session.');
+          return;
+        }
+        console.log(`[Relay] Host of session ${meta.sessionId} disconnected. Holding session for ${HOST_GRACE_PERIOD_MS}ms.`);
+        session.hostWs = null;
+        broadcast(ws, { type: 'host-disconnected', graceMs: HOST_GRACE_PERIOD_MS });
+        session.hostGraceTimer = setTimeout(() => {
+          console.log(`[Relay] Host did not reclaim session ${meta.sessionId}. Closing session.`);
+          endSession(meta.sessionId, 'Host did not reconnect.');
+        }, HOST_GRACE_PERIOD_MS);
+      } else if (meta.role === 'Guest') {
+        // If a guest disconnects, just remove them from the session
+        // and notify remaining participants
+        broadcast(ws, { type: 'participant-left', participantId: meta.participantId });
+        session.guests.delete(meta.participantId);
+        console.log(`[Relay] Guest ${meta.participantId} left session ${meta.sessionId}.`);
+      }
+    });
+  });
+
+  const pingTimer = setInterval(() => {
+    const now = Date.now();
+    attemptCounts.forEach((entry, key) => {
+      if (now - entry.since >= ATTEMPT_WINDOW_MS) attemptCounts.delete(key);
+    });
+    wss.clients.forEach((ws) => {
+      if (ws.__cwm && ws.__cwm.alive === false) {
+        console.log(`[Relay] ${ws.__cwm.role || 'Client'} ${ws.__cwm.participantId || ''} missed a ping, terminating`);
+        ws.terminate();
+        return;
+      }
+      tagSocket(ws, { alive: false });
+      try { ws.ping(); } catch (e) { /* closing */ }
+    });
+  }, PING_INTERVAL_MS);
+  wss.on('close', () => clearInterval(pingTimer));
+
+  return {
+    /**
+     * End every session and stop accepting connections.
+     */
+    close() {
+      clearInterval(pingTimer);
+      for (const sessionId of Array.from(sessions.keys())) endSession(sessionId, 'The relay was stopped.');
+      return new Promise((resolve) => wss.close(() => resolve()));
+    }
+  };
+}
+
+module.exports = {
+  attachRelay,
+  // Exported for tests
+  JOURNAL_MAX_ENTRIES,
+  JOURNAL_MAX_BYTES,
+  createSession,
+  appendToJournal,
+  missedEnvelopes,
+  admitGuestIdentity,
+  acceptsGuestMessage,
+  revokeGuest
+};
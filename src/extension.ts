@@ -5,6 +5,15 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as crypto from 'crypto';
+import * as os from 'os';
+import * as https from 'https';
+import * as Y from 'yjs';
+import ignore, { Ignore } from 'ignore';
+import WebSocketClient, { ClientOptions } from 'ws';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { computeLineEdits } from './lineEdits';
+import { checkPathAccess, GuestPathScope, isSameOrChildPath } from './pathAccess';
+import { openSealedMessage, sealMessage, SESSION_KEY_BYTES, SessionCipher } from './sealing';
 
 // Session management
 interface CollaborationSession {
@@ -25,8 +34,24 @@ interface Participant {
     selection?: vscode.Selection;
     activeFile?: string;
     lastSeen: Date;
+    // Host: liveness from heartbeats, and the latest round trip to this participant
+    presence?: ParticipantPresence;
+    rttMs?: number;
+    // GitHub login the host verified for this guest
+    githubLogin?: string;
 }
 
+// Host: a guest waiting in the lobby for the host to admit or deny it
+interface LobbyGuest {
+    id: string;
+    name: string;
+    githubLogin?: string;
+    // The guest's hello-guest, answered once the guest is admitted
+    hello?: any;
+}
+
+type ParticipantPresence = 'active' | 'idle' | 'unreachable';
+
 interface SessionPermissions {
     allowGuestEdit: boolean;
     allowGuestDebug: boolean;
@@ -51,6 +76,12 @@ let ws: WebSocket | null = null;
 let sessionStatusItem: vscode.StatusBarItem;
 let inviteCodeStatusItem: vscode.StatusBarItem | null = null;
 let removedParticipantIds: Set<string> = new Set();
+// Host: verified GitHub logins (lower case) of removed guests; their requests to join are denied
+const bannedGitHubLogins: Set<string> = new Set();
+// Host: guests waiting to be admitted, by participant id. Nothing from the workspace reaches them until they are.
+const lobbyGuests: Map<string, LobbyGuest> = new Map();
+// Guest: connected, but the host has not admitted this guest yet
+let awaitingAdmission = false;
 let __cwm_wasHost: boolean = false;
 let sessionStartMs: number | null = null; // Shared timer start (host-sourced)
 let statusBarTimer: NodeJS.Timeout | null = null; // Ticks status bar every second when active
@@ -122,15 +153,16 @@ function refreshSessionStatusBar() {
             sessionStatusItem.text = compact
                 ? `$(${iconActive})`
                 : `$(${iconActive}) Hosting Code With Me (${guestCount})${sessionStartMs != null ? ` • ${formatElapsed(sessionStartMs)}` : ''}`;
+            const lobbyNote = lobbyGuests.size ? ` • ${lobbyGuests.size} waiting in the lobby` : '';
             // Tooltip: support optional logo image via config (statusBarLogo)
             if (logoUri) {
                 const md = new vscode.MarkdownString();
                 md.isTrusted = false;
                 md.appendMarkdown(`![logo](${logoUri}|height=16)\n`);
-                md.appendText(`Hosting session${guestCount ? ` • ${guestCount} participant(s)` : ' • waiting for guests'}`);
+                md.appendText(`Hosting session${guestCount ? ` • ${guestCount} participant(s)` : ' • waiting for guests'}${lobbyNote}`);
                 sessionStatusItem.tooltip = md;
             } else {
-                sessionStatusItem.tooltip = `Hosting session${guestCount ? ` • ${guestCount} participant(s)` : ' • waiting for guests'}`;
+                sessionStatusItem.tooltip = `Hosting session${guestCount ? ` • ${guestCount} participant(s)` : ' • waiting for guests'}${lobbyNote}`;
             }
             // Color logic: red until a guest joins, green after at least one guest
             sessionStatusItem.color = new vscode.ThemeColor(guestCount > 0 ? 'charts.green' : 'charts.red');
@@ -138,10 +170,11 @@ function refreshSessionStatusBar() {
             sessionStatusItem.command = (clickAction === 'stop') ? 'code-with-me.stopSession' : 'code-with-me.showSessionMenu';
 
             // Compute and show invite code item (host only)
-            const code = lastSessionUrl ? lastSessionUrl.substring(lastSessionUrl.lastIndexOf('/') + 1) : '';
+            const code = getInviteCode();
             if (inviteCodeStatusItem) {
                 if (code) {
-                    inviteCodeStatusItem.text = `$(key) CWM: ${code}`;
+                    // The key after '#' is copied with the code but kept out of the status bar
+                    inviteCodeStatusItem.text = `$(key) CWM: ${code.split('#')[0]}`;
                     const tip = new vscode.MarkdownString();
                     tip.appendMarkdown(`Click to copy code\n\n`);
                     if (lastSessionUrl) {
@@ -155,12 +188,17 @@ function refreshSessionStatusBar() {
             }
         } else if (isGuest) {
             // Guest view
-            const guestIcon = 'pass'; // checkmark-like icon
+            const guestIcon = awaitingAdmission ? 'watch' : hostReconnecting ? 'sync~spin' : 'pass'; // checkmark-like icon
+            const guestLabel = awaitingAdmission ? 'Waiting for the host…' : hostReconnecting ? 'Host reconnecting…' : 'Connected to Host';
             sessionStatusItem.text = compact
                 ? `$(${guestIcon})`
-                : `$(${guestIcon}) Connected to Host${sessionStartMs != null ? ` • ${formatElapsed(sessionStartMs)}` : ''}`;
-            sessionStatusItem.tooltip = 'Connected to Host — Click to leave the session';
-            sessionStatusItem.color = new vscode.ThemeColor('charts.green');
+                : `$(${guestIcon}) ${guestLabel}${sessionStartMs != null ? ` • ${formatElapsed(sessionStartMs)}` : ''}`;
+            sessionStatusItem.tooltip = awaitingAdmission
+                ? 'Waiting in the lobby for the host to admit you — Click to leave'
+                : hostReconnecting
+                ? 'The host lost its connection; the session resumes when it reconnects — Click to leave the session'
+                : `Connected to Host${hostRttMs !== undefined ? ` (${hostRttMs} ms)` : ''} — Click to leave the session`;
+            sessionStatusItem.color = new vscode.ThemeColor(awaitingAdmission || hostReconnecting ? 'charts.yellow' : 'charts.green');
             sessionStatusItem.command = 'code-with-me.stopSession'; // acts as Leave session for guests
             if (inviteCodeStatusItem) { inviteCodeStatusItem.hide(); }
         }
@@ -203,15 +241,27 @@ async function showHostSessionMenu() {
         const buttons: vscode.QuickInputButton[] = [
             { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Remove' }
         ];
+        const liveness = [p.presence, typeof p.rttMs === 'number' ? `${p.rttMs} ms` : undefined].filter(Boolean).join(' • ');
         return {
             label: `${blocked ? '$(circle-slash) ' : ''}${p.name || p.id}`,
-            description: blocked ? '(removed/blocked)' : undefined,
+            description: blocked ? '(removed/blocked)' : (liveness || undefined),
             detail: p.id,
             buttons
         } as any;
     };
 
     const itemsWithButtons: (vscode.QuickPickItem & { detail?: string; buttons?: vscode.QuickInputButton[] })[] = [];
+    for (const guest of lobbyGuests.values()) {
+        itemsWithButtons.push({
+            label: `$(watch) ${describeLobbyGuest(guest)}`,
+            description: 'waiting in the lobby',
+            detail: guest.id,
+            buttons: [
+                { iconPath: new vscode.ThemeIcon('check'), tooltip: 'Admit' },
+                { iconPath: new vscode.ThemeIcon('close'), tooltip: 'Deny' }
+            ]
+        } as any);
+    }
     for (const p of participants) {
         if (p.id === currentUserId) { continue; }
         itemsWithButtons.push(makeItem(p));
@@ -227,17 +277,32 @@ async function showHostSessionMenu() {
     qp.onDidTriggerItemButton(async (e) => {
         const id = (e.item as any).detail as string | undefined;
         if (!id) { return; }
-        const name = participants.find(p => p.id === id)?.name || id;
+        if (e.button.tooltip === 'Admit' || e.button.tooltip === 'Deny') {
+            disposeAll();
+            if (e.button.tooltip === 'Admit') {
+                await admitLobbyGuest(id);
+            } else {
+                denyLobbyGuest(id);
+            }
+            return;
+        }
+        const removed = participants.find(p => p.id === id);
+        const name = removed?.name || id;
         const confirm = await vscode.window.showWarningMessage(`Remove ${name} from the session?`, { modal: true }, 'Remove');
         if (confirm !== 'Remove') { return; }
         try {
             removedParticipantIds.add(id);
+            if (removed?.githubLogin) { bannedGitHubLogins.add(removed.githubLogin.toLowerCase()); }
             currentSession?.participants?.delete(id);
             refreshSessionStatusBar();
             if (ws && ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ type: 'kick-guest', participantId: id, guestId: id, reason: 'removed_by_host', timestamp: Date.now() }));
+                ws.send(JSON.stringify({ type: 'kick-guest', participantId: id, guestId: id, reason: 'removed_by_host', ban: true, timestamp: Date.now() }));
             }
-            vscode.window.showInformationMessage(`${name} has been removed and disconnected.`);
+            // The relay bans the participant identity it issued; without a verified GitHub login nothing stops the
+            // same person from asking again under a new identity, so say so
+            vscode.window.showInformationMessage(removed?.githubLogin
+                ? `${name} has been removed and disconnected. Requests from GitHub account ${removed.githubLogin} are denied for the rest of the session.`
+                : `${name} has been removed and disconnected. They can ask to join again under a new identity; such requests wait in the lobby for you.`);
             // Refresh list
             const updated = currentSession?.participants ? Array.from(currentSession.participants.values()) : [];
             qp.items = updated.filter(p => p.id !== currentUserId).map(makeItem) as any;
@@ -274,7 +339,9 @@ let participantCursorLabelDecorations: Map<string, vscode.TextEditorDecorationTy
 let lastSessionUrl: string = '';
 let hostSessionPermissions: SessionPermissions | null = null;
 let guestSessionPermissions: SessionPermissions | null = null;
-let guestUntitledMap: Map<string, vscode.TextDocument> = new Map();
+// Host: workspace folders chosen for the session (null shares every folder)
+let sharedRootPaths: string[] | null = null;
+let guestDocumentMap: Map<string, vscode.TextDocument> = new Map();
 // Tracks guest-initiated requests to open/receive content for a specific file.
 // Used to ensure we only auto-open on the guest when it explicitly requested the content.
 const pendingFileContentRequests: Set<string> = new Set();
@@ -288,20 +355,72 @@ let sessionDisposables: vscode.Disposable[] = [];
 let sessionListenersActive = false;
 let fileWatchersActive = false;
 
-// New variables for batching and sequence tracking
-let lastProcessedSequence = 0;
-let pendingChanges: Map<string, any[]> = new Map();
+// Outgoing Yjs updates are batched per file and merged before sending
+let pendingChanges: Map<string, Uint8Array[]> = new Map();
 let batchTimeout: NodeJS.Timeout | null = null;
 const BATCH_DELAY = 50; // ms
-// Per-file outgoing sequence counters
-const fileSeqCounter: Map<string, number> = new Map();
-// Per-file, per-sender last processed sequence to de-duplicate on receive
-const lastProcessedSeqByFileAndSender: Map<string, Map<string, number>> = new Map();
 // Recently applied message IDs to avoid duplicate processing regardless of server behavior
 const recentMessageIds: string[] = [];
-// A robust guard to link remote edits to the events they produce.
-// Map<filePath, { resolve: () => void, reject: (reason?: any) => void }>
-const editConfirmationPromises = new Map<string, { resolve: () => void, reject: (reason?: any) => void }>();
+
+// Shared CRDT documents: every shared file is backed by a Y.Doc whose Y.Text mirrors the editor buffer.
+// Keyed by host file path on both sides.
+const sharedDocs: Map<string, Y.Doc> = new Map();
+const SHARED_TEXT_NAME = 'content';
+// Transaction origins, so the update listener only sends edits made in this editor
+const LOCAL_ORIGIN = 'cwm-local';
+const REMOTE_ORIGIN = 'cwm-remote';
+// Remote updates already pushed to the editor but not yet folded into the Y.Doc.
+// The echo of the editor change folds them in, so Y.Text and the buffer never disagree while the user types.
+const pendingRemoteApplies: Map<string, { text: string; update: Uint8Array }> = new Map();
+const REMOTE_APPLY_ATTEMPTS = 5;
+// Per-file revision numbers. The host stamps every change it accepts with the next revision;
+// guests track the last revision they applied and send it as the base revision of their own changes.
+const sharedRevisions: Map<string, number> = new Map();
+// Guest: local changes sent to the host but not yet echoed back with a revision, per file (message ids)
+const unacknowledgedChanges: Map<string, Set<string>> = new Map();
+// Guest: files with an authoritative file-content request in flight (path -> request time)
+const pendingResyncs: Map<string, number> = new Map();
+const RESYNC_TIMEOUT_MS = 10000;
+// File-content payloads larger than one chunk are streamed as file-content-start/-chunk/-end messages
+const FILE_CHUNK_SIZE = 256 * 1024;
+const FILE_TRANSFER_TIMEOUT_MS = 30000;
+interface IncomingFileTransfer {
+    path: string;
+    totalChunks: number;
+    chunks: string[];
+    received: number;
+    // Whether this guest asked for the file; other guests drop the chunks
+    wanted: boolean;
+    timer: NodeJS.Timeout;
+    progress?: vscode.Progress<{ increment?: number }>;
+    done?: () => void;
+}
+// Guest: chunked transfers in progress (transfer id -> chunks so far)
+const incomingFileTransfers: Map<string, IncomingFileTransfer> = new Map();
+// Guest: file changes that arrived while the file's snapshot was still being transferred
+const incomingTransferChanges: Map<string, any[]> = new Map();
+// Folders are listed one level at a time; guests page through large folders
+const TREE_PAGE_SIZE = 500;
+const FOLDER_REQUEST_TIMEOUT_MS = 10000;
+// Host: filtered, sorted folder listings (folder path -> entries)
+const folderListingCache: Map<string, { name: string; isDirectory: boolean }[]> = new Map();
+// Guest: cwm: file system reads waiting for the host (resource id -> resolvers)
+const pendingFileReads: Map<string, ((bytes: Uint8Array | undefined) => void)[]> = new Map();
+// Guest: content of files being opened, served to VS Code before the document exists
+const openingFileContents: Map<string, string> = new Map();
+// Guest: documents saved only to mark them clean after another participant's save
+const silentSaves: Set<string> = new Set();
+// Guest: save requests waiting for the host's file-saved or save-rejected (request id -> callbacks)
+const pendingSaveRequests: Map<string, { resolve: () => void; reject: (reason: string) => void }> = new Map();
+const SAVE_REQUEST_TIMEOUT_MS = 15000;
+// Guest: folder-children requests waiting for the host (request id -> resolver)
+const pendingFolderRequests: Map<string, (reply: any) => void> = new Map();
+// Guest: file operation requests waiting for the host's file-operation-result (request id -> resolver)
+const pendingFileOperations: Map<string, (result: any) => void> = new Map();
+// Guest: read-only previews of binary files, keyed by resource id
+const guestBinaryPreviews: Map<string, vscode.WebviewPanel> = new Map();
+// Host: how long to wait for VS Code to reload a clean buffer after its file changed on disk
+const DISK_RELOAD_SETTLE_MS = 300;
 
 // Presence smoothing for many participants: debounce remote cursor decorations
 const cursorDecorateTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -335,37 +454,468 @@ function enqueueFileChange(filePath: string, task: () => Promise<void>): Promise
     return next;
 }
 
+// Guest-side debounce map to suppress discard/close-induced full clears
+const pendingFullClears = new Map<string, { changes: SharedTextChange[]; timer: NodeJS.Timeout; doc: vscode.TextDocument }>();
+
+// Minimal shape of an editor content change, as reported by onDidChangeTextDocument
+interface SharedTextChange {
+    rangeOffset: number;
+    rangeLength: number;
+    text: string;
+}
+
+// An edit to apply to an editor buffer so it catches up with its Y.Text
+interface SharedTextEdit {
+    range: vscode.Range;
+    text: string;
+}
+
+// Yjs updates are binary; the wire protocol is JSON, so they travel base64-encoded
+function encodeSharedUpdate(update: Uint8Array): string {
+    return Buffer.from(update).toString('base64');
+}
+
+function decodeSharedUpdate(encoded: string): Uint8Array {
+    return new Uint8Array(Buffer.from(encoded, 'base64'));
+}
+
+// Create (or replace) the shared document for a file.
+// The host seeds it from its buffer text; guests seed it from the host's encoded state so all replicas share one history.
+function createSharedDoc(filePath: string, seed: { content?: string; state?: Uint8Array }): Y.Doc {
+    disposeSharedDoc(filePath);
+    const ydoc = new Y.Doc();
+    if (seed.state) {
+        Y.applyUpdate(ydoc, seed.state, REMOTE_ORIGIN);
+    } else if (seed.content) {
+        ydoc.getText(SHARED_TEXT_NAME).insert(0, seed.content);
+    }
+    ydoc.on('update', (update: Uint8Array, origin: any) => {
+        // Only edits made in this editor go out; remote updates were already sent by their author
+        if (origin !== LOCAL_ORIGIN) { return; }
+        // Look the path up at send time: a rename may have moved this document to a new key
+        for (const [currentPath, doc] of sharedDocs.entries()) {
+            if (doc === ydoc) {
+                queueSharedUpdate(currentPath, update);
+                return;
+            }
+        }
+    });
+    sharedDocs.set(filePath, ydoc);
+    return ydoc;
+}
+
+function disposeSharedDoc(filePath: string) {
+    const existing = sharedDocs.get(filePath);
+    if (existing) {
+        try { existing.destroy(); } catch {}
+        sharedDocs.delete(filePath);
+    }
+    pendingRemoteApplies.delete(filePath);
+    sharedRevisions.delete(filePath);
+    unacknowledgedChanges.delete(filePath);
+}
+
+// Host: assign the next revision for a file
+function nextSharedRevision(filePath: string): number {
+    const revision = (sharedRevisions.get(filePath) || 0) + 1;
+    sharedRevisions.set(filePath, revision);
+    return revision;
+}
+
+// Record editor content changes in the shared Y.Text.
+// Changes within one event are sequential (each relative to the text after the previous one), so apply them in order.
+function applyLocalChangesToSharedDoc(filePath: string, changes: readonly SharedTextChange[]) {
+    const ydoc = sharedDocs.get(filePath);
+    if (!ydoc) { return; }
+    const ytext = ydoc.getText(SHARED_TEXT_NAME);
+    ydoc.transact(() => {
+        for (const ch of changes) {
+            if (ch.rangeLength > 0) { ytext.delete(ch.rangeOffset, ch.rangeLength); }
+            if (ch.text) { ytext.insert(ch.rangeOffset, ch.text); }
+        }
+    }, LOCAL_ORIGIN);
+}
+
+// Queue a local Yjs update for the next batched send
+function queueSharedUpdate(filePath: string, update: Uint8Array) {
+    if (!pendingChanges.has(filePath)) { pendingChanges.set(filePath, []); }
+    pendingChanges.get(filePath)!.push(update);
+    if (batchTimeout) { clearTimeout(batchTimeout); }
+    batchTimeout = setTimeout(() => { sendBatchUpdates(); }, BATCH_DELAY);
+}
+
+// Send a held-back guest full clear now (a later edit or remote update shows it was intentional)
+function flushPendingFullClear(filePath: string) {
+    const pending = pendingFullClears.get(filePath);
+    if (!pending) { return; }
+    try { clearTimeout(pending.timer); } catch {}
+    pendingFullClears.delete(filePath);
+    applyLocalChangesToSharedDoc(filePath, pending.changes);
+}
+
+// Translate a Y.Text delta (relative to the current buffer) into non-overlapping editor edits
+function sharedDeltaToEdits(doc: vscode.TextDocument, delta: any[]): SharedTextEdit[] {
+    const edits: SharedTextEdit[] = [];
+    let offset = 0;
+    let start = -1;
+    let end = 0;
+    let text = '';
+    const flush = () => {
+        if (start >= 0) {
+            edits.push({ range: new vscode.Range(doc.positionAt(start), doc.positionAt(end)), text });
+        }
+        start = -1;
+        text = '';
+    };
+    for (const op of delta) {
+        if (typeof op.retain === 'number') {
+            flush();
+            offset += op.retain;
+            continue;
+        }
+        if (start < 0) { start = offset; end = offset; }
+        if (typeof op.delete === 'number') {
+            end += op.delete;
+            offset += op.delete;
+        } else if (typeof op.insert === 'string') {
+            text += op.insert;
+        }
+    }
+    flush();
+    return edits;
+}
+
+// Single replace edit turning `current` into `target` (used when the buffer and Y.Text have drifted apart)
+function sharedDiffToEdits(doc: vscode.TextDocument, current: string, target: string): SharedTextEdit[] {
+    if (current === target) { return []; }
+    let start = 0;
+    const minLen = Math.min(current.length, target.length);
+    while (start < minLen && current[start] === target[start]) { start++; }
+    let endCurrent = current.length;
+    let endTarget = target.length;
+    while (endCurrent > start && endTarget > start && current[endCurrent - 1] === target[endTarget - 1]) {
+        endCurrent--;
+        endTarget--;
+    }
+    return [{
+        range: new vscode.Range(doc.positionAt(start), doc.positionAt(endCurrent)),
+        text: target.substring(start, endTarget)
+    }];
+}
+
+// Resolve the editor buffer a shared file is bound to
+async function resolveSharedTextDocument(filePath: string, role: 'Host' | 'Guest'): Promise<vscode.TextDocument | undefined> {
+    if (role === 'Guest') {
+        const mapped = guestDocumentMap.get(filePath);
+        return mapped && !mapped.isClosed ? mapped : undefined;
+    }
+    try {
+        return await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    } catch {
+        return undefined;
+    }
+}
+
+// Apply a remote Yjs update to a shared file: the buffer is edited first and the Y.Doc advances
+// together with it, so a local keystroke can never be recorded against a stale Y.Text.
+// Returns the edits applied to the buffer, or null if the update could not be applied to it.
+async function applyRemoteSharedUpdate(filePath: string, update: Uint8Array, role: 'Host' | 'Guest'): Promise<SharedTextEdit[] | null> {
+    const ydoc = sharedDocs.get(filePath);
+    if (!ydoc) { return null; }
+    const doc = await resolveSharedTextDocument(filePath, role);
+    if (!doc) {
+        // No buffer to keep in step; the Y.Doc alone absorbs the update
+        Y.applyUpdate(ydoc, update, REMOTE_ORIGIN);
+        return [];
+    }
+    flushPendingFullClear(filePath);
+    const ytext = ydoc.getText(SHARED_TEXT_NAME);
+
+    for (let attempt = 0; attempt < REMOTE_APPLY_ATTEMPTS; attempt++) {
+        // Preview the update on a copy to learn the resulting text and delta
+        const preview = new Y.Doc();
+        Y.applyUpdate(preview, Y.encodeStateAsUpdate(ydoc));
+        const previewText = preview.getText(SHARED_TEXT_NAME);
+        let delta: any[] = [];
+        previewText.observe((event) => { delta = event.delta as any[]; });
+        Y.applyUpdate(preview, update);
+        const target = previewText.toString();
+        preview.destroy();
+
+        const current = doc.getText();
+        if (current === target) {
+            Y.applyUpdate(ydoc, update, REMOTE_ORIGIN);
+            return [];
+        }
+        const edits = current === ytext.toString()
+            ? sharedDeltaToEdits(doc, delta)
+            : sharedDiffToEdits(doc, current, target);
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            workspaceEdit.replace(doc.uri, edit.range, edit.text);
+        }
+
+        const pending = { text: target, update };
+        pendingRemoteApplies.set(filePath, pending);
+        let ok = false;
+        try {
+            // applyEdit is version-checked: it fails if the user typed since we read the buffer
+            ok = await vscode.workspace.applyEdit(workspaceEdit);
+        } finally {
+            // The change event normally folds the update in; cover the case where it did not fire
+            if (pendingRemoteApplies.get(filePath) === pending) {
+                pendingRemoteApplies.delete(filePath);
+                if (ok) { Y.applyUpdate(ydoc, update, REMOTE_ORIGIN); }
+            }
+        }
+        if (ok) { return edits; }
+    }
+
+    // Keep the replica converged even though the buffer could not follow
+    console.warn(`[CodeWithMe] ${role}: Could not apply remote update to the open buffer`, filePath);
+    Y.applyUpdate(ydoc, update, REMOTE_ORIGIN);
+    return null;
+}
+
+// Host: fold an on-disk change (git checkout, formatter, codegen) into a shared file.
+// A clean loaded buffer is reloaded by VS Code and reaches guests through the editor change path;
+// otherwise the change is diffed against the shared text and recorded as a host edit.
+async function syncSharedFileFromDisk(uri: vscode.Uri) {
+    const filePath = uri.fsPath;
+    if (!sharedDocs.has(filePath)) { return; }
+    await enqueueFileChange(filePath, async () => {
+        const ydoc = sharedDocs.get(filePath);
+        if (!ydoc) { return; }
+        let diskText: string;
+        try {
+            diskText = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch (e) {
+            console.warn('[CodeWithMe] Host: Could not read changed file', filePath, e);
+            return;
+        }
+        const ytext = ydoc.getText(SHARED_TEXT_NAME);
+        if (ytext.toString() === diskText) { return; }
+
+        const loaded = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath && !d.isClosed);
+        if (loaded) {
+            if (loaded.isDirty) {
+                // The host's unsaved buffer stays authoritative for the session
+                console.warn('[CodeWithMe] Host: File changed on disk while it has unsaved edits; keeping the buffer', filePath);
+                vscode.window.showWarningMessage(`${path.basename(filePath)} changed on disk but has unsaved changes. Guests keep seeing your editor's version.`);
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, DISK_RELOAD_SETTLE_MS));
+            if (loaded.isClosed || loaded.getText() === diskText) { return; }
+            // VS Code did not reload the buffer; bring it up to date ourselves so the editor change path streams it
+            const edits = computeLineEdits(loaded.getText(), diskText);
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            for (const edit of edits) {
+                workspaceEdit.replace(loaded.uri, new vscode.Range(loaded.positionAt(edit.offset), loaded.positionAt(edit.offset + edit.length)), edit.text);
+            }
+            if (await vscode.workspace.applyEdit(workspaceEdit)) {
+                await loaded.save();
+            }
+        } else {
+            // No buffer: apply the hunks back to front so earlier offsets stay valid
+            const edits = computeLineEdits(ytext.toString(), diskText);
+            ydoc.transact(() => {
+                for (let k = edits.length - 1; k >= 0; k--) {
+                    const edit = edits[k];
+                    if (edit.length > 0) { ytext.delete(edit.offset, edit.length); }
+                    if (edit.text) { ytext.insert(edit.offset, edit.text); }
+                }
+            }, LOCAL_ORIGIN);
+        }
+        console.log('[CodeWithMe] Host: Shared on-disk change for', filePath);
+        updateSyncStatus(`${path.basename(filePath)} changed on disk`, '$(sync)');
+    });
+}
+
+// Short content hash carried with file-change so receivers can detect silent divergence
+function computeContentHash(text: string): string {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex').substring(0, 16);
+}
+
+// Guest: after applying a host revision, compare our buffer with the host's checksum for that revision.
+// Only meaningful once every change we made is already part of the host's state.
+function verifySharedChecksum(filePath: string, msg: any) {
+    if (typeof msg.checksum !== 'string' || typeof msg.revision !== 'number') { return; }
+    if ((sharedRevisions.get(filePath) || 0) !== msg.revision) { return; }
+    if (pendingChanges.get(filePath)?.length || pendingFullClears.has(filePath) || unacknowledgedChanges.get(filePath)?.size) { return; }
+    const doc = guestDocumentMap.get(filePath);
+    if (!doc || doc.isClosed) { return; }
+    const localHash = computeContentHash(doc.getText());
+    if (localHash !== msg.checksum) {
+        console.warn('[CodeWithMe] Guest: Checksum mismatch after applying revision', { filePath, revision: msg.revision, expected: msg.checksum, actual: localHash });
+        requestFileResync(filePath, 'checksum mismatch');
+    }
+}
+
+// Guest: fetch the host's authoritative content for a file that diverged
+function requestFileResync(filePath: string, reason: string) {
+    if (pendingResyncs.has(filePath)) { return; }
+    if (!ws || ws.readyState !== WebSocket.OPEN) { return; }
+    const requestedAt = Date.now();
+    pendingResyncs.set(filePath, requestedAt);
+    console.log(`[CodeWithMe] Guest: Requesting resync for ${filePath} (${reason})`);
+    updateSyncStatus(`Resyncing ${path.basename(filePath)}`, '$(warning)');
+    if (syncStatusItem) {
+        syncStatusItem.tooltip = `Real-time sync: ${path.basename(filePath)} diverged from the host (${reason}); fetching the host's copy`;
+    }
+    ws.send(JSON.stringify({
+        type: 'request-file-content',
+        filePath,
+        resync: true,
+        timestamp: requestedAt
+    }));
+    // Give up on a lost reply so a later mismatch can retry
+    setTimeout(() => {
+        if (pendingResyncs.get(filePath) === requestedAt) {
+            pendingResyncs.delete(filePath);
+            updateSyncStatus(`Resync of ${path.basename(filePath)} timed out`, '$(error)');
+        }
+    }, RESYNC_TIMEOUT_MS);
+}
+
+// Guest: replace a diverged buffer with the host's authoritative content and rebind it to the host's shared state
+async function applyFileResync(filePath: string, content: string, state?: Uint8Array, revision?: number) {
+    pendingResyncs.delete(filePath);
+    const doc = guestDocumentMap.get(filePath);
+    if (!doc || doc.isClosed) { return; }
+    await enqueueFileChange(filePath, async () => {
+        updatingFromRemoteFiles.add(filePath);
+        try {
+            const edits = sharedDiffToEdits(doc, doc.getText(), content);
+            if (edits.length > 0) {
+                const workspaceEdit = new vscode.WorkspaceEdit();
+                for (const edit of edits) {
+                    workspaceEdit.replace(doc.uri, edit.range, edit.text);
+                }
+                if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+                    console.error('[CodeWithMe] Guest: Failed to apply resync content for', filePath);
+                    updateSyncStatus(`Resync of ${path.basename(filePath)} failed`, '$(error)');
+                    return;
+                }
+            }
+        } finally {
+            updatingFromRemoteFiles.delete(filePath);
+        }
+        // Local changes not yet sent were made against the diverged text; the host's copy supersedes them
+        pendingChanges.delete(filePath);
+        if (state) { createSharedDoc(filePath, { state }); }
+        if (typeof revision === 'number') { sharedRevisions.set(filePath, revision); }
+        try { lastProcessedContent.set(filePath, content); } catch {}
+        console.log('[CodeWithMe] Guest: Resynced', filePath, 'at revision', revision);
+        updateSyncStatus('In sync', '$(check)');
+    });
+}
+
+// Guest: catch up an open file after reconnecting. The host sent what this guest missed since its state vector;
+// anything this guest changed that the host never acknowledged (including edits made while offline) goes back the same way.
+async function resumeSharedFile(msg: any) {
+    const filePath: string = msg.filePath;
+    await enqueueFileChange(filePath, async () => {
+        const ydoc = sharedDocs.get(filePath);
+        if (!ydoc || typeof msg.update !== 'string' || typeof msg.stateVector !== 'string') { return; }
+        const edits = await applyRemoteSharedUpdate(filePath, decodeSharedUpdate(msg.update), 'Guest');
+        if (edits === null) {
+            requestFileResync(filePath, 'missed changes could not be applied');
+            return;
+        }
+        if (typeof msg.revision === 'number') {
+            sharedRevisions.set(filePath, Math.max(sharedRevisions.get(filePath) || 0, msg.revision));
+        }
+        if (pendingChanges.get(filePath)?.length || unacknowledgedChanges.get(filePath)?.size) {
+            // Yjs updates are idempotent, so resending changes the host did receive is harmless
+            unacknowledgedChanges.delete(filePath);
+            pendingChanges.set(filePath, [Y.encodeStateAsUpdate(ydoc, decodeSharedUpdate(msg.stateVector))]);
+            sendBatchUpdates();
+        }
+        console.log('[CodeWithMe] Guest: Resumed', filePath, 'at revision', sharedRevisions.get(filePath));
+    });
+}
+
 // Attribution: global decoration cache and per-file ownership map
 const attributionDecorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
 // Map<filePath, Map<lineNumber, { userName: string }>>
 const lineOwnership: Map<string, Map<number, { userName: string }>> = new Map();
 
-// Auto-reload guards on unexpected disconnects
-let __cwm_reloadScheduled: boolean = false;
-let __cwm_reloadBackoffMs: number = 1000; // start with 1s
-const __cwm_reloadBackoffMaxMs: number = 8000; // cap at 8s
-function scheduleReload(reason: string) {
+// Reconnect after an unexpected disconnect, with exponential backoff between attempts
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+let reconnectAttempt = 0;
+let reconnectTimer: NodeJS.Timeout | null = null;
+// Set when the relay ended the session or refused us, so a following close does not reconnect
+let sessionClosedByRelay = false;
+// The relay's explanation, shown when that close ends the session
+let relayClosedReason: string | undefined;
+// Sequence number of the last relay envelope received; a reconnect asks the relay to replay everything after it
+let lastRelaySeq = 0;
+// Host: token from the relay that lets this host claim its reserved code and reclaim the session after its connection drops
+let hostReconnectToken: string | undefined;
+// Guest: passphrase the relay checks before admitting this guest. Asked for when the relay refuses the join,
+// and kept for reconnects.
+let sessionPassphrase: string | undefined;
+// Guest: the relay refused the join for a missing or wrong passphrase, so the guest is asked for it once the socket closes
+let passphraseRejected: 'passphrase-required' | 'passphrase-invalid' | null = null;
+// Guest: secret the relay issued with this guest's participant id; reconnecting as that participant requires it
+let guestResumeSecret: string | undefined;
+// Guest: the host's connection dropped and the relay is holding the session open for it
+let hostReconnecting = false;
+// Messages the relay itself sends. They are the only ones accepted in the clear, and never accepted sealed,
+// so a participant cannot pose as the relay.
+const RELAY_CONTROL_TYPES = new Set([
+    'session-created', 'session-joined', 'admitted', 'error', 'session-ended',
+    'participant-joined', 'participant-left', 'host-disconnected', 'host-reconnected', 'snapshot-required'
+]);
+// Key for the session's end-to-end encryption. The host generates it and it travels in the invite
+// after '#', so it is never part of the URL the relay sees.
+let sessionCipher: SessionCipher | null = null;
+
+function scheduleReconnect(url: string, role: 'Host' | 'Guest') {
+    if (reconnectTimer) { return; }
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    reconnectAttempt++;
+    console.log(`[CodeWithMe] ${role}: Reconnecting in ${delay}ms (attempt ${reconnectAttempt} of ${RECONNECT_MAX_ATTEMPTS})`);
+    updateSyncStatus(`Connection lost, reconnecting (attempt ${reconnectAttempt})`, '$(sync~spin)');
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        setupCollaborationSession(url, role, true);
+    }, delay);
+}
+
+// The session socket closed without the user stopping the session. Reconnect while the session can still be
+// resumed; otherwise end it here, leaving the window as it is.
+async function handleSessionSocketClosed(url: string, role: 'Host' | 'Guest') {
+    if (isStopping) { return; }
+    if (currentSession && !sessionClosedByRelay && reconnectAttempt < RECONNECT_MAX_ATTEMPTS) {
+        scheduleReconnect(url, role);
+        return;
+    }
+    const rejected = passphraseRejected;
+    if (rejected) {
+        cleanupSessionState();
+        refreshSessionStatusBar();
+        await joinWithPassphrase(url, rejected === 'passphrase-invalid');
+        return;
+    }
+    const reason = !currentSession ? 'Connection failed. Make sure the server is running.'
+        : sessionClosedByRelay ? (relayClosedReason || 'The session has ended.')
+            : 'Session disconnected. Could not reconnect to the session.';
+    vscode.window.showWarningMessage(reason);
+    // Perform same cleanup as guest stop flow so no editors linger
     try {
-        if (__cwm_reloadScheduled) { return; }
-        // Do not auto-reload if user explicitly stopped the session
-        if (isStopping) { return; }
-        __cwm_reloadScheduled = true;
-        console.log(`[CodeWithMe] Scheduling window reload due to ${reason} in ${__cwm_reloadBackoffMs}ms`);
-        const delay = __cwm_reloadBackoffMs;
-        __cwm_reloadBackoffMs = Math.min(__cwm_reloadBackoffMs * 2, __cwm_reloadBackoffMaxMs);
-        setTimeout(() => {
-            try {
-                // reset the flag just before reload attempt
-                __cwm_reloadScheduled = false;
-                vscode.commands.executeCommand('workbench.action.reloadWindow');
-            } catch (e) {
-                console.error('[CodeWithMe] Failed to execute reloadWindow command', e);
-            }
-        }, delay);
+        cleanupSessionState();
+        if (role === 'Guest') {
+            await discardAndCloseAllEditors();
+        }
     } catch (e) {
-        console.error('[CodeWithMe] scheduleReload error', e);
+        console.warn('[CodeWithMe] Cleanup after disconnect failed', e);
     }
+    refreshSessionStatusBar();
 }
+
 // Cache: compact header labels per user (one label per contiguous block)
 /* Per-user compact header decorations (one label per contiguous block) */
 const headerDecorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
@@ -388,7 +938,6 @@ function getDisplayUserName(roleHint?: 'host' | 'guest'): string {
         const anyGlobal = (global as any);
         const cached = anyGlobal.__cwm_fallbackUserName;
         if (cached) {return cached;}
-        const os = require('os');
         const envUser = process.env['GIT_AUTHOR_NAME'] || process.env['USER'] || process.env['USERNAME'] || os.userInfo()?.username;
         const name = envUser || (roleHint === 'host' ? 'Host' : roleHint === 'guest' ? 'Guest' : 'Unknown');
         anyGlobal.__cwm_fallbackUserName = name;
@@ -398,25 +947,6 @@ function getDisplayUserName(roleHint?: 'host' | 'guest'): string {
     }
 }
 
-/**
- * Generates a short, memorable, and URL-friendly session code.
- * e.g., ABC-DEF
- */
-function generateSessionCode(length: number = 6): string {
-    // Using a character set that avoids ambiguous characters (I, O, 0, 1)
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    let result = '';
-    for (let i = 0; i < length; i++) {
-        result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-
-    // Add a dash for readability if the length is 6
-    if (length === 6) {
-        return `${result.substring(0, 3)}-${result.substring(3, 6)}`;
-    }
-    return result;
-}
-
 // Decorations for showing other participants
 let participantDecorations: Map<string, vscode.TextEditorDecorationType> = new Map();
 let cursorDecorations: Map<string, vscode.TextEditorDecorationType> = new Map();
@@ -474,8 +1004,8 @@ function updateParticipantCursors() {
         let currentEditorHostPath = editor.document.uri.fsPath;
         if (currentRole === 'guest') {
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === editor.document) { currentEditorHostPath = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === editor.document) { currentEditorHostPath = resourceId; break; }
                 }
             } catch {}
         }
@@ -539,12 +1069,12 @@ function getHeaderDecoration(userName: string): vscode.TextEditorDecorationType
 // Apply persistent per-line ownership decorations to an editor
 function refreshOwnershipDecorations(editor: vscode.TextEditor) {
     try {
-        // Resolve host path for guest untitled docs so our lineOwnership map matches
+        // Resolve resource id for guest cwm: docs so our lineOwnership map matches
         let filePath = editor.document.fileName;
         if (currentRole === 'guest') {
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === editor.document) { filePath = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === editor.document) { filePath = resourceId; break; }
                 }
             } catch {}
         }
@@ -622,6 +1152,12 @@ function refreshOwnershipDecorations(editor: vscode.TextEditor) {
 // Updated to point to the EC2 instance
 const DEFAULT_PUBLIC_WS_URL = 'ws://ec2-52-66-143-241.ap-south-1.compute.amazonaws.com:3000';
 
+// Relay that session codes resolve against; code-with-me.relayUrl overrides the public default
+function getRelayUrl(): string {
+    const configured = vscode.workspace.getConfiguration('code-with-me').get<string>('relayUrl')?.trim();
+    return (configured || DEFAULT_PUBLIC_WS_URL).replace(/\/+$/, '');
+}
+
 // Message types for WebSocket communication
 const MESSAGE_TYPES = {
     SESSION_STOPPED: 'session-stopped',
@@ -680,9 +1216,18 @@ class WorkspaceItem extends vscode.TreeItem {
         this.description = item.type === 'file' ? 'file' : 'folder';
         
         if (item.type === 'file') {
-            this.iconPath = new vscode.ThemeIcon('file');
+            this.iconPath = new vscode.ThemeIcon(item.binary ? (isImagePath(item.name) ? 'file-media' : 'file-binary') : 'file');
             this.contextValue = 'file';
-            if (item.isOpen) {
+            if (typeof item.size === 'number') {
+                this.tooltip = `${item.path || item.name} (${formatFileSize(item.size)})`;
+            }
+            if (item.tooLarge) {
+                this.description = `Too large to open (${formatFileSize(item.size)})`;
+            } else if (item.binary) {
+                this.description = 'Binary (read-only)';
+            } else if (typeof item.size === 'number' && item.size >= 1024 * 1024) {
+                this.description = formatFileSize(item.size);
+            } else if (item.isOpen) {
                 this.description = 'Open';
             } else if (item.isModified) {
                 this.description = 'Modified';
@@ -696,6 +1241,20 @@ class WorkspaceItem extends vscode.TreeItem {
                 command: 'code-with-me.openFromExplorer',
                 arguments: [this.item]
             };
+        } else if (item.type === 'more') {
+            this.iconPath = new vscode.ThemeIcon('ellipsis');
+            this.contextValue = 'more';
+            this.description = undefined;
+            this.tooltip = `Load more entries of ${item.path}`;
+            this.command = {
+                title: 'Load More',
+                command: 'code-with-me.loadMoreChildren',
+                arguments: [item.path]
+            };
+        } else if (item.rootId) {
+            this.iconPath = new vscode.ThemeIcon('root-folder');
+            this.contextValue = 'root';
+            this.description = 'Workspace folder';
         } else {
             this.iconPath = new vscode.ThemeIcon('folder');
             this.contextValue = 'folder';
@@ -708,6 +1267,11 @@ class WorkspaceItem extends vscode.TreeItem {
     }
 }
 
+// Keep a paged folder's total in step with incremental additions and removals
+function countChild(folderNode: any, delta: number) {
+    if (typeof folderNode.childrenTotal === 'number') { folderNode.childrenTotal = Math.max(0, folderNode.childrenTotal + delta); }
+}
+
 // Global tree view provider instance
 let codeWithMeTreeProvider: CodeWithMeTreeProvider | null = null;
 
@@ -717,12 +1281,158 @@ class CodeWithMeTreeProvider implements vscode.TreeDataProvider<WorkspaceItem> {
     readonly onDidChangeTreeData: vscode.Event<WorkspaceItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private tree: any[] = [];
+    // Host paths of the shared workspace folders. With several, the top-level nodes are the roots themselves.
+    private rootPaths: string[] = [];
+
+    // With a single root, its top-level nodes are `tree`; this node tracks how many more the host has
+    private singleRoot: any = null;
 
-    setTree(hostTree: any[]) {
+    setTree(hostTree: any[], rootPaths?: string[], treeTotal?: number) {
         this.tree = Array.isArray(hostTree) ? hostTree : [];
+        if (Array.isArray(rootPaths)) { this.rootPaths = rootPaths; }
+        this.singleRoot = this.rootPaths.length === 1
+            ? { type: 'folder', path: this.rootPaths[0], children: this.tree, childrenTotal: typeof treeTotal === 'number' ? treeTotal : this.tree.length }
+            : null;
+        this._onDidChangeTreeData.fire();
+    }
+
+    // Fetch the next page of a partly loaded folder
+    async loadMore(folderPath: string) {
+        const node = this.findFolder(folderPath);
+        if (node && await this.loadChildren(node, Array.isArray(node.children) ? node.children.length : 0)) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    private async loadChildren(node: any, offset: number): Promise<boolean> {
+        const reply = await requestFolderChildren(node.path, offset);
+        if (!reply || reply.error || !Array.isArray(reply.nodes)) {
+            if (reply?.error) { vscode.window.showWarningMessage(`Code with me: ${reply.error}`); }
+            return false;
+        }
+        const children: any[] = Array.isArray(node.children) ? node.children : [];
+        for (const child of reply.nodes) {
+            if (!children.some(c => c.path === child.path)) { children.push(child); }
+        }
+        node.children = children;
+        node.childrenTotal = typeof reply.total === 'number' ? reply.total : children.length;
+        return true;
+    }
+
+    private findFolder(folderPath: string): any {
+        const node = this.findNode(folderPath);
+        return node?.type === 'folder' ? node : undefined;
+    }
+
+    // The loaded tree node (or shared root) at a resource id
+    findNode(nodePath: string): any {
+        if (this.singleRoot?.path === nodePath) { return this.singleRoot; }
+        const find = (nodes: any[]): any => {
+            for (const n of nodes) {
+                if (n.path === nodePath) { return n; }
+                if (n.type === 'folder' && Array.isArray(n.children) && isSameOrChildPath(nodePath, n.path)) { return find(n.children); }
+            }
+            return undefined;
+        };
+        return find(this.tree);
+    }
+
+    // A folder with its children loaded from the host (every page), for the cwm: file system
+    async getLoadedFolder(folderPath: string): Promise<any> {
+        if (this.rootPaths.length > 1 && !this.rootPaths.includes(folderPath) && !this.rootPaths.some(root => isSameOrChildPath(folderPath, root))) {
+            return undefined;
+        }
+        const folder = this.findFolder(folderPath);
+        if (!folder) { return undefined; }
+        while (!Array.isArray(folder.children) || folder.children.length < (folder.childrenTotal ?? folder.children.length)) {
+            const loaded = Array.isArray(folder.children) ? folder.children.length : -1;
+            if (!(await this.loadChildren(folder, Math.max(0, loaded))) || folder.children.length === loaded) { break; }
+        }
+        return Array.isArray(folder.children) ? folder : undefined;
+    }
+
+    // Tree items for a loaded folder's children, followed by a "load more" item while pages remain
+    private childItems(node: any): WorkspaceItem[] {
+        const children: any[] = Array.isArray(node.children) ? node.children : [];
+        const items = children.map(n => new WorkspaceItem(n));
+        const remaining = (node.childrenTotal ?? children.length) - children.length;
+        if (remaining > 0) {
+            items.push(new WorkspaceItem({ type: 'more', name: `Load more (${remaining} remaining)`, path: node.path }));
+        }
+        return items;
+    }
+
+    // Incremental updates from the host's file system watcher.
+    // Nodes are mutated in place so the cached workspace info used by the quick-pick stays current.
+    addNode(parentPath: string, node: any) {
+        const parent = this.getFolderNode(parentPath);
+        if (!parent) { return; }
+        const siblings: any[] = parent.children;
+        const existing = siblings.findIndex(n => n.path === node.path);
+        if (existing >= 0) {
+            siblings.splice(existing, 1);
+        } else {
+            countChild(parent, 1);
+        }
+        // Keep the host ordering: folders first, then alphabetical
+        let index = siblings.findIndex(n => {
+            if (n.type !== node.type) { return n.type === 'file'; }
+            return n.name.localeCompare(node.name) > 0;
+        });
+        if (index < 0) { index = siblings.length; }
+        siblings.splice(index, 0, node);
         this._onDidChangeTreeData.fire();
     }
 
+    removeNode(nodePath: string): boolean {
+        const removeFrom = (parent: any): boolean => {
+            const nodes: any[] = parent.children;
+            const index = nodes.findIndex(n => n.path === nodePath);
+            if (index >= 0) {
+                nodes.splice(index, 1);
+                countChild(parent, -1);
+                return true;
+            }
+            return nodes.some(n => n.type === 'folder' && Array.isArray(n.children) && removeFrom(n));
+        };
+        const removed = removeFrom(this.singleRoot ?? { children: this.tree });
+        if (removed) { this._onDidChangeTreeData.fire(); }
+        return removed;
+    }
+
+    // The folder node at `folderPath`, creating folders the guest has not seen yet.
+    // Undefined when the path is outside every shared root or the folder's children are not loaded.
+    private getFolderNode(folderPath: string): any | undefined {
+        const rootPath = this.rootPaths.find(root => isSameOrChildPath(folderPath, root));
+        if (!rootPath) {
+            return this.rootPaths.length > 1 ? undefined : (this.singleRoot ?? { children: this.tree });
+        }
+        let folderNode: any = this.singleRoot ?? { children: this.tree };
+        if (this.rootPaths.length > 1) {
+            folderNode = this.tree.find(n => n.path === rootPath);
+            if (!folderNode) { return undefined; }
+            if (!Array.isArray(folderNode.children)) { folderNode.children = []; }
+        }
+        const separator = rootPath.includes('\\') ? '\\' : '/';
+        const segments = folderPath.substring(rootPath.length).split(/[\\/]/).filter(Boolean);
+        let currentPath = rootPath;
+        for (const segment of segments) {
+            currentPath = `${currentPath}${separator}${segment}`;
+            const nodes: any[] = folderNode.children;
+            let folder = nodes.find(n => n.type === 'folder' && n.name === segment);
+            if (!folder) {
+                folder = { type: 'folder', name: segment, path: currentPath, children: [] };
+                const index = nodes.findIndex(n => n.type === 'file' || n.name.localeCompare(segment) > 0);
+                nodes.splice(index < 0 ? nodes.length : index, 0, folder);
+                countChild(folderNode, 1);
+            }
+            // Not loaded yet: the guest gets the current children when it expands the folder
+            if (!Array.isArray(folder.children)) { return undefined; }
+            folderNode = folder;
+        }
+        return folderNode;
+    }
+
     refresh() {
         this._onDidChangeTreeData.fire();
     }
@@ -731,27 +1441,127 @@ class CodeWithMeTreeProvider implements vscode.TreeDataProvider<WorkspaceItem> {
         return element;
     }
 
-    getChildren(element?: WorkspaceItem): Thenable<WorkspaceItem[]> {
+    async getChildren(element?: WorkspaceItem): Promise<WorkspaceItem[]> {
         if (!element) {
-            const items = this.tree.map(node => new WorkspaceItem(node));
-            return Promise.resolve(items);
+            return this.singleRoot ? this.childItems(this.singleRoot) : this.tree.map(node => new WorkspaceItem(node));
+        }
+        if (element.item.type !== 'folder') {
+            return [];
         }
-        if (element.item.type === 'folder' && Array.isArray(element.item.children)) {
-            return Promise.resolve(element.item.children.map((n: any) => new WorkspaceItem(n)));
+        // Children are fetched from the host the first time a folder is expanded
+        if (!Array.isArray(element.item.children) && !(await this.loadChildren(element.item, 0))) {
+            return [];
         }
-        return Promise.resolve([]);
+        return this.childItems(element.item);
     }
 }
 
-// Function to create WebSocket connection
-function createWebSocket(url: string): any {
-    // Use the global WebSocket if available, otherwise use require
-    if (typeof WebSocket !== 'undefined') {
-        return new WebSocket(url);
-    } else {
-        const WebSocket = require('ws');
-        return new WebSocket(url);
+// Host: in-process relay for sessions on the local network (code-with-me.embeddedRelay). It runs
+// relay-server/relay.js, the relay the standalone server uses, and lives as long as the host's session.
+interface EmbeddedRelay {
+    close(): Promise<void>;
+}
+let embeddedRelay: { relay: EmbeddedRelay; url: string } | null = null;
+
+// First external IPv4 address, which guests on the same network can reach
+function getLanAddress(): string {
+    for (const addresses of Object.values(os.networkInterfaces())) {
+        const external = (addresses ?? []).find(a => a.family === 'IPv4' && !a.internal);
+        if (external) { return external.address; }
+    }
+    return '127.0.0.1';
+}
+
+async function startEmbeddedRelay(port: number): Promise<string> {
+    if (embeddedRelay) { return embeddedRelay.url; }
+    const wss = new WebSocketClient.Server({ port });
+    try {
+        await new Promise<void>((resolve, reject) => {
+            wss.once('listening', resolve);
+            wss.once('error', reject);
+        });
+    } catch (e) {
+        try { wss.close(); } catch {}
+        throw e;
+    }
+    const { attachRelay } = require(path.join(__dirname, '..', 'relay-server', 'relay.js'));
+    const url = `ws://${getLanAddress()}:${port}`;
+    embeddedRelay = { relay: attachRelay(wss), url };
+    console.log('[CodeWithMe] Host: Embedded relay listening at', url);
+    return url;
+}
+
+function stopEmbeddedRelay() {
+    if (!embeddedRelay) { return; }
+    const { relay } = embeddedRelay;
+    embeddedRelay = null;
+    relay.close().catch(e => console.warn('[CodeWithMe] Failed to stop the embedded relay', e));
+}
+
+// Function to create WebSocket connection.
+// Uses the `ws` client so wss:// relays can be verified against a custom CA and reached through an HTTP proxy.
+async function createWebSocket(url: string): Promise<WebSocket> {
+    const cfg = vscode.workspace.getConfiguration('code-with-me');
+    const options: ClientOptions = {};
+    const caPath = cfg.get<string>('relayCaCertificatePath')?.trim();
+    if (caPath) {
+        try {
+            options.ca = await fs.readFile(caPath);
+        } catch {
+            throw new Error(`Could not read the relay CA certificate at ${caPath}`);
+        }
     }
+    const proxy = cfg.get<string>('relayProxy')?.trim() || vscode.workspace.getConfiguration('http').get<string>('proxy')?.trim();
+    if (proxy) {
+        options.agent = new HttpsProxyAgent(proxy);
+    }
+    // The `ws` client implements the browser WebSocket API the session code is written against
+    return new WebSocketClient(url, options) as unknown as WebSocket;
+}
+
+// Host: ask the relay for an unused session code. It is held for the host, which claims it by presenting the
+// returned token when it connects; guests are only admitted once it has.
+async function reserveSessionCode(relayUrl: string, passphrase?: string): Promise<{ sessionId: string; hostToken: string }> {
+    const socket = await createWebSocket(relayUrl);
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            try { socket.close(); } catch {}
+            reject(new Error('The relay did not answer the session reservation.'));
+        }, 15000);
+        socket.onopen = () => socket.send(JSON.stringify({ type: 'create-session', passphrase }));
+        socket.onmessage = (event: any) => {
+            let msg: any;
+            try { msg = JSON.parse(event.data?.toString?.() ?? ''); } catch { msg = null; }
+            if (msg?.type === 'session-reserved' && typeof msg.sessionId === 'string' && typeof msg.hostToken === 'string') {
+                clearTimeout(timer);
+                resolve({ sessionId: msg.sessionId, hostToken: msg.hostToken });
+            } else if (msg?.type === 'error') {
+                clearTimeout(timer);
+                reject(new Error(typeof msg.message === 'string' ? msg.message : 'The relay refused to reserve a session code.'));
+            }
+        };
+        socket.onerror = () => {
+            clearTimeout(timer);
+            reject(new Error('Could not reach the relay to reserve a session code.'));
+        };
+        socket.onclose = () => {
+            clearTimeout(timer);
+            reject(new Error('The relay closed the connection without reserving a session code.'));
+        };
+    });
+}
+
+// Split an invite URL into the URL to connect to and the session key carried after '#'
+function parseInviteUrl(url: string): { relayUrl: string; key?: Buffer } {
+    const hash = url.indexOf('#');
+    if (hash < 0) { return { relayUrl: url }; }
+    const key = Buffer.from(url.substring(hash + 1), 'base64url');
+    return { relayUrl: url.substring(0, hash), key: key.length === SESSION_KEY_BYTES ? key : undefined };
+}
+
+// The code a host shares: session code and key, e.g. ABC-DEF#<key>
+function getInviteCode(): string {
+    return lastSessionUrl ? lastSessionUrl.substring(lastSessionUrl.lastIndexOf('/') + 1) : '';
 }
 
 // Function to get language from file path
@@ -779,15 +1589,40 @@ function getLanguageFromPath(filePath: string): string {
 // Legacy screen update loop, WebRTC, and input simulation code removed.
 
 // Collaborative editing - no screen capture, real-time file sync
-async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
+// `resume` rejoins the session this window is already in after the connection dropped:
+// session state, editors and listeners are kept, and the relay is asked for the same participant identity.
+async function setupCollaborationSession(url: string, role: 'Host' | 'Guest', resume: boolean = false) {
     try {
-        console.log(`[CodeWithMe] ${role}: Setting up collaboration with URL:`, url);
+        console.log(`[CodeWithMe] ${role}: Setting up collaboration with URL:`, url, resume ? '(resuming)' : '');
         
+        // The session key stays on this side: only the part before '#' goes to the relay
+        const { relayUrl, key } = parseInviteUrl(url);
+        if (!resume) {
+            if (!key) {
+                throw new Error('The invite has no valid session key. Ask the host for the full invite code, including the part after "#".');
+            }
+            const sessionId = (() => {
+                try { return new URL(relayUrl).pathname.split('/').filter(Boolean).pop() || ''; } catch { return ''; }
+            })();
+            sessionCipher = { key, sessionId };
+        }
+
         // Connect to WebSocket server
-        ws = new WebSocket(url);
+        const socket = await createWebSocket(relayUrl);
+        ws = socket;
         currentRole = role.toLowerCase() as 'host' | 'guest';
+        sessionClosedByRelay = false;
+        relayClosedReason = undefined;
+        if (!resume) {
+            lastRelaySeq = 0;
+        }
+        const sendRaw = socket.send.bind(socket);
+        socket.send = (data: any) => {
+            if (typeof data !== 'string') { return sendRaw(data); }
+            return sendRaw(sealMessage(role === 'Host' ? toWireMessage(data) : data, sessionCipher));
+        };
         
-        ws.onopen = async () => {
+        socket.onopen = async () => {
             console.log(`[CodeWithMe] ${role}: WebSocket connected successfully`);
             
             // Send role identification
@@ -795,15 +1630,27 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                 type: 'role-identification',
                 role: role,
                 userName: getDisplayUserName(role.toLowerCase() as 'host' | 'guest'),
+                participantId: currentUserId,
+                resume: resume || undefined,
+                lastSeq: resume ? lastRelaySeq : undefined,
+                hostToken: role === 'Host' ? hostReconnectToken : undefined,
+                passphrase: role === 'Guest' ? sessionPassphrase : undefined,
+                resumeSecret: role === 'Guest' ? guestResumeSecret : undefined,
                 timestamp: Date.now()
             }));
 
+            startHeartbeat(role);
+            if (resume) {
+                await resumeCollaborationSession(role);
+                return;
+            }
+
             // Initialize currentSession so status bar and menus can reflect state
             try {
                 const sessionIdFromUrl = (() => {
                     try { return new URL(url).pathname.split('/').filter(Boolean).pop() || ''; } catch { return ''; }
                 })();
-                const sharedWorkspace = vscode.workspace.workspaceFolders?.[0] as vscode.WorkspaceFolder;
+                const sharedWorkspace = (role === 'Host' ? getSharedRoots()[0] : vscode.workspace.workspaceFolders?.[0]) as vscode.WorkspaceFolder;
                 currentSession = {
                     sessionId: sessionIdFromUrl,
                     role: (role.toLowerCase() as 'host' | 'guest'),
@@ -848,12 +1695,14 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                 }, 400);
             } else {
                 await setupGuestCollaborativeSession();
-                vscode.window.showInformationMessage('Connected to host. You can now collaborate in real-time.');
+                vscode.window.showInformationMessage('Connected. Waiting for the host to admit you to the session…');
                 // Handshake: guest announces presence; DO NOT require explicit request for workspace
                 const helloMsg = { 
                     type: 'hello-guest', 
                     guestId: currentUserId, 
                     userName: getDisplayUserName('guest'),
+                    // Sealed for the host only, which looks up the GitHub login with it for the lobby prompt
+                    githubToken: cwmCurrentIdentity?.token,
                     timestamp: Date.now() 
                 };
                 try {
@@ -874,39 +1723,18 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
             }
         };
         
-        ws.onerror = async (error: any) => {
+        // A close always follows an error, so the close handler decides whether to reconnect
+        socket.onerror = (error: any) => {
             console.error(`[CodeWithMe] ${role}: WebSocket error:`, error);
-            vscode.window.showErrorMessage(`Connection failed. Make sure the server is running.`);
-            // Perform same cleanup as guest stop flow so no editors linger
-            try {
-                cleanupSessionState();
-                if ((currentRole || role.toLowerCase()) === 'guest') {
-                    await discardAndCloseAllEditors();
-                }
-            } catch (e) {
-                console.warn('[CodeWithMe] Cleanup on error failed', e);
-            }
-            // Auto-reload on any socket error (network drop, host crash, etc.)
-            scheduleReload('socket-error');
         };
         
-        ws.onclose = async () => {
+        socket.onclose = async () => {
             console.log(`[CodeWithMe] ${role}: WebSocket connection closed`);
-            vscode.window.showWarningMessage('Session disconnected.');
-            // Perform same cleanup as guest stop flow so no editors linger
-            try {
-                cleanupSessionState();
-                if ((currentRole || role.toLowerCase()) === 'guest') {
-                    await discardAndCloseAllEditors();
-                }
-            } catch (e) {
-                console.warn('[CodeWithMe] Cleanup on close failed', e);
-            }
-            // Auto-reload on close to recover from disconnections
-            scheduleReload('socket-closed');
+            if (socket !== ws) { return; }
+            await handleSessionSocketClosed(url, role);
         };
         
-        ws.onmessage = async (event: any) => {
+        socket.onmessage = async (event: any) => {
             try {
                 const normalizeParticipantId = (s?: string) => {
                     if (!s) {return s;}
@@ -928,25 +1756,79 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                     console.log(`[CodeWithMe] ${role}: Received non-JSON message (ignored)`);
                     return;
                 }
+                // The relay's view of the sender; a sealed body may carry fields of the same name
+                const senderId: string | undefined = msg?.__relay ? msg.participantId : undefined;
+                const senderRole: string | undefined = msg?.__relay ? msg.from : undefined;
+                // Envelopes replayed after a reconnect can overlap with ones that arrived before the drop
+                if (typeof msg?.seq === 'number') {
+                    if (msg.seq <= lastRelaySeq) { return; }
+                    lastRelaySeq = msg.seq;
+                }
+                // Peer messages must be sealed with the session key; only the relay's own messages are in the clear
+                const sealed = typeof msg?.sealed === 'string';
+                if (sealed) {
+                    const opened = openSealedMessage(msg.sealed, sessionCipher);
+                    if (!opened || typeof opened !== 'object') {
+                        console.log(`[CodeWithMe] ${role}: Dropped a message that did not decrypt with the session key`);
+                        return;
+                    }
+                    // The relay's envelope fields (sender, sequence number) take precedence over the sealed body
+                    const { sealed: _sealed, ...envelope } = msg;
+                    msg = { ...opened, ...envelope };
+                }
+                if (role === 'Host') { msg = fromWireMessage(msg); }
 
                 // Some servers wrap actual payload under msg.data
                 const payload = (msg && typeof msg === 'object' && msg.data && typeof msg.data === 'object' && msg.data.type)
                     ? msg.data
                     : msg;
 
-                // Host: on hello-guest, register participant immediately and push workspace-info
-                if (role === 'Host' && payload?.type === 'hello-guest') {
-                    console.log('[CodeWithMe] Host: Received hello-guest from', (payload.guestId || payload.participantId), '- sending workspace-info');
-                    try {
-                        if (currentSession && currentSession.participants) {
-                            const pid = (payload.participantId || payload.guestId) as string | undefined;
-                            if (!pid) { await sendWorkspaceInfo(); return; }
-                            if (pid === currentUserId) { await sendWorkspaceInfo(); return; }
-                            // If this participant was previously removed/blocked, immediately kick again and do not add
-                            if (removedParticipantIds.has(pid)) {
-                                console.log('[CodeWithMe] Host: hello-guest from removed participant, re-kicking:', pid);
-                                try { ws?.send(JSON.stringify({ type: 'kick-guest', participantId: pid, guestId: pid, reason: 'removed_by_host', timestamp: Date.now() })); } catch {}
-                                await sendWorkspaceInfo();
+                // Relay control messages come only from the relay, in the clear; with a session key, nothing else does
+                const relayControl = RELAY_CONTROL_TYPES.has(msg?.type) || RELAY_CONTROL_TYPES.has(payload?.type);
+                if (sealed ? relayControl : (sessionCipher && (!relayControl || payload !== msg))) {
+                    console.log(`[CodeWithMe] ${role}: Dropped a ${sealed ? 'sealed relay control' : 'cleartext'} message`, payload?.type);
+                    return;
+                }
+
+                // Host: a guest in the lobby may only introduce itself until it is admitted
+                if (role === 'Host' && senderRole === 'Guest' && senderId && payload?.type !== 'hello-guest'
+                    && !currentSession?.participants.has(senderId)) {
+                    return;
+                }
+
+                // The relay could not replay everything missed while disconnected
+                if (payload?.type === 'snapshot-required') {
+                    lastRelaySeq = typeof payload.seq === 'number' ? payload.seq : 0;
+                    requestSessionSnapshot(role);
+                    return;
+                }
+
+                // The relay ended the session or refused this connection; the close that follows is final
+                if (payload?.type === 'session-ended' || payload?.type === 'error') {
+                    console.log(`[CodeWithMe] ${role}: Relay closed the session:`, payload.message);
+                    sessionClosedByRelay = true;
+                    relayClosedReason = typeof payload.message === 'string' ? payload.message : undefined;
+                    if (role === 'Guest' && (payload.code === 'passphrase-required' || payload.code === 'passphrase-invalid')) {
+                        passphraseRejected = payload.code;
+                    }
+                    return;
+                }
+
+                // Host: on hello-guest, register participant immediately and push workspace-info
+                if (role === 'Host' && payload?.type === 'hello-guest') {
+                    console.log('[CodeWithMe] Host: Received hello-guest from', (payload.guestId || payload.participantId), payload.resume ? '- resuming' : '- sending workspace-info');
+                    // A guest rejoining after a dropped connection already has the workspace; it only needs what it missed
+                    const welcome = () => payload.resume ? resumeGuestFiles(payload.guestId, payload.files) : sendWorkspaceInfo();
+                    try {
+                        if (currentSession && currentSession.participants) {
+                            const pid = (payload.participantId || payload.guestId) as string | undefined;
+                            if (!pid) { await welcome(); return; }
+                            if (pid === currentUserId) { await welcome(); return; }
+                            // If this participant was previously removed/blocked, immediately kick again and do not add
+                            if (removedParticipantIds.has(pid)) {
+                                console.log('[CodeWithMe] Host: hello-guest from removed participant, re-kicking:', pid);
+                                try { ws?.send(JSON.stringify({ type: 'kick-guest', participantId: pid, guestId: pid, reason: 'removed_by_host', ban: true, timestamp: Date.now() })); } catch {}
+                                await sendWorkspaceInfo();
                                 return;
                             }
                             const name = payload.userName || pid;
@@ -957,30 +1839,17 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                                 existing.lastSeen = new Date();
                                 currentSession.participants.set(pid, existing);
                                 refreshSessionStatusBar();
-                                await sendWorkspaceInfo();
+                                await welcome();
                                 return;
                             }
-                            currentSession.participants.set(pid, {
-                                id: pid,
-                                name,
-                                role: 'guest',
-                                permissions: {
-                                    canEdit: !!hostSessionPermissions?.allowGuestEdit,
-                                    canDebug: !!hostSessionPermissions?.allowGuestDebug,
-                                    canAccessTerminal: !!hostSessionPermissions?.allowGuestTerminal,
-                                    canCreateFiles: !!hostSessionPermissions?.allowGuestFileCreate,
-                                    canDeleteFiles: !!hostSessionPermissions?.allowGuestFileDelete,
-                                    canViewFiles: true,
-                                },
-                                lastSeen: new Date()
-                            } as Participant);
-                            refreshSessionStatusBar(); // turn green when first guest arrives
-                            vscode.window.showInformationMessage(`${name} joined the session`);
+                            // Guests the host has not admitted wait in the lobby; they are welcomed once admitted
+                            await placeGuestInLobby(pid, name, payload);
+                            return;
                         }
                     } catch (e) {
                         console.warn('[CodeWithMe] Host: Failed to register guest on hello-guest', e);
                     }
-                    await sendWorkspaceInfo();
+                    await welcome();
                     return;
                 }
 
@@ -988,7 +1857,7 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                 if (role === 'Guest' && payload?.type === 'workspace-info' && codeWithMeTreeProvider) {
                     const treeMsg = payload;
                     if (Array.isArray(treeMsg?.tree)) {
-                        codeWithMeTreeProvider.setTree(treeMsg.tree);
+                        codeWithMeTreeProvider.setTree(treeMsg.tree, getWorkspaceRootPaths(treeMsg), treeMsg.treeTotal);
                         // Focus once so the user sees it
                         try { await vscode.commands.executeCommand('code-with-me-explorer.focus'); } catch {}
                         console.log('[CodeWithMe] Guest: Populated Explorer tree from onmessage');
@@ -999,8 +1868,12 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                 // The relay logs show kick-guest is sent to exactly 1 recipient; therefore it's safe to stop unconditionally on guest receipt.
                 if (role === 'Guest' && ((payload?.type === 'kick-guest') || (msg?.type === 'kick-guest'))) {
                     console.log('[CodeWithMe] Guest: received kick-guest -> stopping guest session');
+                    // The relay closes this connection next; it must not be taken for a dropped one
+                    sessionClosedByRelay = true;
                     try {
-                        vscode.window.showWarningMessage('You were removed from the session by the host.');
+                        vscode.window.showWarningMessage(payload?.reason === 'denied'
+                            ? 'The host did not admit you to the session.'
+                            : 'You were removed from the session by the host.');
                     } finally {
                         try { await vscode.commands.executeCommand('code-with-me.stopSession', true); } catch {}
                     }
@@ -1008,7 +1881,7 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
                 }
 
                 // Delegate remaining handling
-                await handleCollaborativeMessage(msg, role);
+                await handleCollaborativeMessage(msg, role, senderId);
             } catch (error) {
                 console.error(`[CodeWithMe] ${role}: Error handling message:`, error);
             }
@@ -1016,7 +1889,7 @@ async function setupCollaborationSession(url: string, role: 'Host' | 'Guest') {
         
     } catch (error) {
         console.error(`[CodeWithMe] ${role}: Error setting up collaboration:`, error);
-        vscode.window.showErrorMessage(`[CodeWithMe] ${role}: Failed to setup collaboration`);
+        vscode.window.showErrorMessage(`[CodeWithMe] ${role}: Failed to setup collaboration${error instanceof Error ? `: ${error.message}` : ''}`);
     }
 }
 
@@ -1065,8 +1938,215 @@ async function setupGuestCollaborativeSession() {
     console.log('[CodeWithMe] Guest: Ready for collaborative editing');
 }
 
+// Rejoin after a reconnect: the session, its listeners and open editors are still in place.
+// Guests report the open files' revisions and state vectors so the host can send what they missed.
+async function resumeCollaborationSession(role: 'Host' | 'Guest') {
+    reconnectAttempt = 0;
+    console.log(`[CodeWithMe] ${role}: Session resumed`);
+    updateSyncStatus('Reconnected', '$(check)');
+    if (role === 'Host') {
+        // Guests could not reach us while we were away; their heartbeat clocks start over
+        currentSession?.participants.forEach(participant => { participant.lastSeen = new Date(); });
+        refreshSessionStatusBar();
+        return;
+    }
+    refreshSessionStatusBar();
+    const files = Array.from(guestDocumentMap.keys())
+        .filter(filePath => sharedDocs.has(filePath))
+        .map(filePath => ({
+            filePath,
+            revision: sharedRevisions.get(filePath) || 0,
+            stateVector: encodeSharedUpdate(Y.encodeStateVector(sharedDocs.get(filePath)!))
+        }));
+    ws?.send(JSON.stringify({
+        type: 'hello-guest',
+        guestId: currentUserId,
+        userName: getDisplayUserName('guest'),
+        resume: true,
+        files,
+        timestamp: Date.now()
+    }));
+}
+
+// Liveness: both sides send a heartbeat every HEARTBEAT_INTERVAL_MS and answer the other side's with an ack
+// that echoes its send time, which gives the round trip. The host removes guests that miss more heartbeats than
+// code-with-me.heartbeatMissedLimit allows; a guest that stops hearing the host drops the connection and reconnects.
+const HEARTBEAT_INTERVAL_MS = 10000;
+const DEFAULT_HEARTBEAT_MISSED_LIMIT = 3;
+// Participants count as idle after this long without editor or window activity
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let lastLocalActivityAt = Date.now();
+// Guest: when the host was last heard from, and the latest round trip to it
+let lastHostHeartbeatAt = 0;
+let hostRttMs: number | undefined;
+
+function getHeartbeatMissedLimit(): number {
+    const limit = vscode.workspace.getConfiguration('code-with-me').get<number>('heartbeatMissedLimit', DEFAULT_HEARTBEAT_MISSED_LIMIT);
+    return Math.max(1, Math.floor(limit));
+}
+
+// One heartbeat is always in flight, so only intervals beyond that count as missed
+function countMissedHeartbeats(lastHeardAt: number): number {
+    return Math.max(0, Math.floor((Date.now() - lastHeardAt) / HEARTBEAT_INTERVAL_MS) - 1);
+}
+
+function getLocalPresence(): ParticipantPresence {
+    return Date.now() - lastLocalActivityAt > IDLE_AFTER_MS ? 'idle' : 'active';
+}
+
+function startHeartbeat(role: 'Host' | 'Guest') {
+    lastHostHeartbeatAt = Date.now();
+    if (heartbeatTimer) { return; }
+    const markActive = () => { lastLocalActivityAt = Date.now(); };
+    markActive();
+    sessionDisposables.push(
+        vscode.window.onDidChangeTextEditorSelection(markActive),
+        vscode.window.onDidChangeActiveTextEditor(markActive),
+        vscode.window.onDidChangeWindowState(state => { if (state.focused) { markActive(); } })
+    );
+    heartbeatTimer = setInterval(() => sendHeartbeat(role), HEARTBEAT_INTERVAL_MS);
+}
+
+function sendHeartbeat(role: 'Host' | 'Guest') {
+    // Nothing is heard while reconnecting; the reconnect logic owns that state
+    if (!ws || ws.readyState !== WebSocket.OPEN) { return; }
+    try { ws.send(JSON.stringify({ type: 'heartbeat', sentAt: Date.now(), presence: getLocalPresence() })); } catch {}
+    if (role === 'Host') {
+        evaluateParticipantLiveness();
+    } else if (!hostReconnecting && !awaitingAdmission && countMissedHeartbeats(lastHostHeartbeatAt) >= getHeartbeatMissedLimit()) {
+        console.warn('[CodeWithMe] Guest: No heartbeat from the host, reconnecting');
+        lastHostHeartbeatAt = Date.now();
+        try { ws.close(4000, 'Heartbeat timeout'); } catch {}
+    }
+}
+
+// Guest: the host's connection dropped (or came back). Edits keep flowing to the relay, which replays them to the host
+// when it reclaims the session; the session only ends if the grace period runs out.
+function setHostReconnecting(reconnecting: boolean, graceMs?: number) {
+    hostReconnecting = reconnecting;
+    lastHostHeartbeatAt = Date.now();
+    if (reconnecting) {
+        console.log('[CodeWithMe] Guest: Host disconnected, waiting up to', graceMs, 'ms for it to reconnect');
+        updateSyncStatus('Host reconnecting…', '$(sync~spin)');
+    } else {
+        console.log('[CodeWithMe] Guest: Host reconnected');
+        updateSyncStatus('Host reconnected', '$(check)');
+    }
+    refreshSessionStatusBar();
+}
+
+// Guest: waiting in the lobby. The host sends nothing, heartbeats included, until it admits this guest.
+function setAwaitingAdmission(waiting: boolean) {
+    awaitingAdmission = waiting;
+    lastHostHeartbeatAt = Date.now();
+    updateSyncStatus(waiting ? 'Waiting for the host to admit you' : 'Admitted to the session', waiting ? '$(watch)' : '$(check)');
+    refreshSessionStatusBar();
+}
+
+// Host: mark guests that stopped answering unreachable, and remove those past the missed-heartbeat limit.
+// An evicted guest that is still connected is told so, and rejoins through a reconnect.
+function evaluateParticipantLiveness() {
+    if (!currentSession?.participants) { return; }
+    const limit = getHeartbeatMissedLimit();
+    let changed = false;
+    for (const participant of Array.from(currentSession.participants.values())) {
+        if (participant.id === currentUserId) { continue; }
+        const missed = countMissedHeartbeats(participant.lastSeen.getTime());
+        if (missed >= limit) {
+            console.warn('[CodeWithMe] Host: Removing unresponsive participant', participant.id, { missed });
+            try { ws?.send(JSON.stringify({ type: 'participant-evicted', targetId: participant.id.replace(/^(guest-|host-)/, ''), reason: 'unreachable', timestamp: Date.now() })); } catch {}
+            handleParticipantLeft({ participantId: participant.id, userName: participant.name, reason: 'unreachable' });
+        } else if (missed >= 1 && participant.presence !== 'unreachable') {
+            participant.presence = 'unreachable';
+            changed = true;
+        }
+    }
+    if (changed) { refreshSessionStatusBar(); }
+}
+
+// Host: a heartbeat or ack from a guest shows it is alive
+function touchParticipant(participantId: string | undefined, presence: unknown): Participant | undefined {
+    const participant = participantId ? currentSession?.participants.get(participantId) : undefined;
+    if (!participant) { return undefined; }
+    participant.lastSeen = new Date();
+    const reported: ParticipantPresence = presence === 'idle' ? 'idle' : 'active';
+    if (participant.presence !== reported) {
+        participant.presence = reported;
+        refreshSessionStatusBar();
+    }
+    return participant;
+}
+
+// Host: the sender is the relay's sender id, never a participant id from the message body
+function handleHeartbeat(msg: any, role: 'Host' | 'Guest', senderId: string | undefined) {
+    if (role === 'Host') {
+        const participant = touchParticipant(senderId, msg.presence);
+        if (!participant) { return; }
+        try { ws?.send(JSON.stringify({ type: 'heartbeat-ack', sentAt: msg.sentAt, targetId: participant.id.replace(/^(guest-|host-)/, ''), timestamp: Date.now() })); } catch {}
+    } else {
+        lastHostHeartbeatAt = Date.now();
+        try { ws?.send(JSON.stringify({ type: 'heartbeat-ack', sentAt: msg.sentAt, presence: getLocalPresence(), timestamp: Date.now() })); } catch {}
+    }
+}
+
+function handleHeartbeatAck(msg: any, role: 'Host' | 'Guest', senderId: string | undefined) {
+    const rttMs = typeof msg.sentAt === 'number' ? Math.max(0, Date.now() - msg.sentAt) : undefined;
+    if (role === 'Host') {
+        const participant = touchParticipant(senderId, msg.presence);
+        if (participant && rttMs !== undefined) { participant.rttMs = rttMs; }
+    } else if (msg.targetId === currentUserId) {
+        lastHostHeartbeatAt = Date.now();
+        hostRttMs = rttMs;
+    }
+}
+
+// Messages were lost for good while disconnected. Guests fetch the workspace again (open files are caught up
+// by the resume handshake); the host cannot recover guest messages, but guest resyncs repair any divergence.
+function requestSessionSnapshot(role: 'Host' | 'Guest') {
+    console.warn(`[CodeWithMe] ${role}: Missed messages are no longer available, requesting a full snapshot`);
+    if (role === 'Guest' && ws && ws.readyState === 1) {
+        ws.send(JSON.stringify({ type: 'request-workspace-info', timestamp: Date.now() }));
+    }
+}
+
+// Host: send a rejoining guest the changes it missed in each file it has open.
+// A file the host no longer has a shared document for is resynced in full.
+async function resumeGuestFiles(targetId: string, files: any) {
+    if (!Array.isArray(files)) { return; }
+    // Pending host edits first, so the revisions sent below include them
+    sendBatchUpdates();
+    for (const file of files) {
+        const filePath = typeof file?.filePath === 'string' ? file.filePath : '';
+        if (!filePath || await checkGuestPathAccess(filePath)) { continue; }
+        const ydoc = sharedDocs.get(filePath);
+        let update: Uint8Array | undefined;
+        try {
+            if (ydoc && typeof file.stateVector === 'string') { update = Y.encodeStateAsUpdate(ydoc, decodeSharedUpdate(file.stateVector)); }
+        } catch (e) {
+            console.warn('[CodeWithMe] Host: Invalid state vector from resuming guest for', filePath, e);
+        }
+        if (!ydoc || !update) {
+            try { ws?.send(JSON.stringify({ type: 'file-resync', filePath, targetId, timestamp: Date.now() })); } catch {}
+            continue;
+        }
+        try {
+            ws?.send(JSON.stringify({
+                type: 'file-resume',
+                filePath,
+                targetId,
+                revision: sharedRevisions.get(filePath) || 0,
+                update: encodeSharedUpdate(update),
+                stateVector: encodeSharedUpdate(Y.encodeStateVector(ydoc)),
+                timestamp: Date.now()
+            }));
+        } catch {}
+    }
+}
+
 // Handle collaborative messages - JetBrains style
-async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
+// `senderId` is the relay's participant id for the sender; a guest cannot set it from the message body
+async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest', senderId?: string) {
     try {
         console.log(`[CodeWithMe] ${role}: Handling collaborative message:`, msg?.type);
         if (!msg || !msg.type) {
@@ -1077,39 +2157,13 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
         switch (msg.type) {
             case 'file-opened': {
                 try {
-                    const openerId: string | undefined = msg.participantId;
+                    // The host names the guest that opened the file; otherwise the sender opened it
+                    const openerId: string | undefined = msg.openerId ?? msg.participantId;
                     const openerName: string = msg.userName || 'Participant';
                     const p: string | undefined = msg.filePath || msg.path;
                     if (p && openerId !== currentUserId) {
-                        // Format: <project>/<full relative path from project root>
-                        // Robust even if guest's local workspace does not include host path
-                        let displayPath = '';
-                        try {
-                            const uri = vscode.Uri.file(p);
-                            const wsFolder = vscode.workspace.getWorkspaceFolder(uri);
-                            const relRaw = vscode.workspace.asRelativePath(uri, false);
-                            const rel = relRaw.split(path.sep).join('/');
-                            if (wsFolder && wsFolder.name) {
-                                displayPath = `${wsFolder.name}/${rel}`;
-                            } else {
-                                // Fallback: derive project as the directory just above the file
-                                const parts = p.split(path.sep).filter(Boolean);
-                                const fileName = parts.length ? parts[parts.length - 1] : p;
-                                const project = parts.length >= 2 ? parts[parts.length - 2] : '';
-                                // If there are deeper folders beyond project, include them
-                                // Find index of project in parts and include tail after it
-                                let tail = fileName;
-                                if (project) {
-                                    const projIdx = parts.lastIndexOf(project);
-                                    const after = parts.slice(projIdx + 1);
-                                    tail = after.join('/');
-                                }
-                                displayPath = project ? `${project}/${tail}` : fileName;
-                            }
-                        } catch {
-                            // Ultimate fallback to basename
-                            displayPath = path.basename(p);
-                        }
+                        // Shown as <root id>/<path>: guests receive resource ids, the host maps its own path back
+                        const displayPath = role === 'Host' ? (toResourceId(p) ?? path.basename(p)) : p;
                         vscode.window.showInformationMessage(`${openerName} opened ${displayPath}`);
                     }
                 } catch (e) {
@@ -1118,47 +2172,165 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
                 break;
             }
             case 'file-change':
-                await handleFileChange(msg, role);
+                await handleFileChange(msg, role, senderId);
                 break;
 
             case 'cursor-position':
                 await handleCursorPosition(msg, role);
                 break;
 
+            // Incremental explorer updates from the host's file system watcher
+            case 'tree-add':
+                if (role === 'Guest' && codeWithMeTreeProvider && msg.node && typeof msg.parentPath === 'string') {
+                    codeWithMeTreeProvider.addNode(msg.parentPath, msg.node);
+                    fireGuestFileChanges([{ type: vscode.FileChangeType.Created, uri: toCwmUri(msg.node.path) }]);
+                }
+                break;
+
+            case 'tree-remove':
+                if (role === 'Guest' && typeof msg.path === 'string') {
+                    codeWithMeTreeProvider?.removeNode(msg.path);
+                    markGuestDocumentsDeleted(msg.path);
+                    fireGuestFileChanges([{ type: vscode.FileChangeType.Deleted, uri: toCwmUri(msg.path) }]);
+                }
+                break;
+
+            case 'tree-rename':
+                if (role === 'Guest' && typeof msg.oldPath === 'string' && typeof msg.newPath === 'string') {
+                    codeWithMeTreeProvider?.removeNode(msg.oldPath);
+                    if (msg.node && typeof msg.parentPath === 'string') {
+                        codeWithMeTreeProvider?.addNode(msg.parentPath, msg.node);
+                    }
+                    remapGuestDocumentsAfterRename(msg.oldPath, msg.newPath);
+                    fireGuestFileChanges([
+                        { type: vscode.FileChangeType.Deleted, uri: toCwmUri(msg.oldPath) },
+                        { type: vscode.FileChangeType.Created, uri: toCwmUri(msg.newPath) }
+                    ]);
+                }
+                break;
+
+            case 'session-created':
+                if (role === 'Host' && typeof msg.hostToken === 'string') {
+                    hostReconnectToken = msg.hostToken;
+                }
+                break;
+
+            // Guests start in the lobby unless the host admitted them earlier in this session
+            case 'session-joined':
+                if (role === 'Guest') {
+                    if (typeof msg.resumeSecret === 'string') {
+                        guestResumeSecret = msg.resumeSecret;
+                    }
+                    setAwaitingAdmission(msg.admitted === false);
+                }
+                break;
+
+            case 'admitted':
+                if (role === 'Guest' && awaitingAdmission) {
+                    setAwaitingAdmission(false);
+                    vscode.window.showInformationMessage('The host admitted you. You can now collaborate in real-time.');
+                }
+                break;
+
+            // The relay holds the session open while the host reconnects
+            case 'host-disconnected':
+                if (role === 'Guest') {
+                    setHostReconnecting(true, msg.graceMs);
+                }
+                break;
+
+            case 'host-reconnected':
+                if (role === 'Guest') {
+                    setHostReconnecting(false);
+                }
+                break;
+
+            case 'heartbeat':
+                handleHeartbeat(msg, role, senderId);
+                break;
+
+            case 'heartbeat-ack':
+                handleHeartbeatAck(msg, role, senderId);
+                break;
+
+            // Host removed this guest after it missed too many heartbeats; reconnecting rejoins the session
+            case 'participant-evicted':
+                if (role === 'Guest' && msg.targetId === currentUserId) {
+                    console.warn('[CodeWithMe] Guest: Host stopped hearing from us, reconnecting');
+                    try { ws?.close(4001, 'Evicted as unreachable'); } catch {}
+                }
+                break;
+
+            // Host: changes this guest missed while it was disconnected
+            case 'file-resume':
+                if (role === 'Guest' && msg.targetId === currentUserId && typeof msg.filePath === 'string' && sharedDocs.has(msg.filePath)) {
+                    await resumeSharedFile(msg);
+                }
+                break;
+
+            // Host detected that this guest's copy of a file diverged
+            case 'file-resync':
+                if (role === 'Guest' && msg.targetId === currentUserId && msg.filePath && sharedDocs.has(msg.filePath)) {
+                    requestFileResync(msg.filePath, 'host reported a checksum mismatch');
+                }
+                break;
+
             // NEW: when Host sends file-content, Guest opens it only if it explicitly requested
             case 'file-content':
                 if (role === 'Guest') {
                     try {
-                        const data = msg.data || msg;
-                        // Support both shapes: { data: { path, content } } and { filePath, content }
-                        const pRaw = (data?.path !== undefined) ? data.path : data?.filePath;
-                        const content = data?.content;
-                        if (pRaw && typeof content === 'string') {
-                            const p = String(pRaw);
-                            if (pendingFileContentRequests.has(p)) {
-                                // Optional freshness guard (ignore very late arrivals > 5s)
-                                const ts = pendingFileContentAt.get(p) || 0;
-                                const fresh = Date.now() - ts < 5000;
-                                pendingFileContentRequests.delete(p);
-                                pendingFileContentAt.delete(p);
-                                if (fresh) {
-                                    console.log('[CodeWithMe] Guest: Opening file from file-content (requested):', p);
-                                    await openFileContentInGuestEditor(p, content);
-                                } else {
-                                    console.log('[CodeWithMe] Guest: Ignoring stale file-content for', p);
-                                }
-                            } else {
-                                console.log('[CodeWithMe] Guest: Ignoring unsolicited file-content for', p);
-                            }
-                        } else {
-                            console.warn('[CodeWithMe] Guest: file-content missing path/filePath or content');
-                        }
+                        await handleGuestFileContent(msg.data || msg);
                     } catch (e) {
                         console.error('[CodeWithMe] Guest: Failed to open file from file-content:', e);
                     }
                 }
                 break;
 
+            // Large file-content payloads arrive in sequenced chunks
+            case 'file-content-start':
+            case 'file-content-chunk':
+            case 'file-content-end':
+                if (role === 'Guest') {
+                    try {
+                        await handleFileContentTransfer(msg);
+                    } catch (e) {
+                        console.error('[CodeWithMe] Guest: Failed to handle chunked file-content:', e);
+                    }
+                }
+                break;
+
+            case 'request-folder-children':
+                if (role === 'Host') {
+                    await handleFolderChildrenRequest(msg, senderId);
+                }
+                break;
+
+            case 'folder-children':
+                if (role === 'Guest' && msg.targetId === currentUserId) {
+                    pendingFolderRequests.get(msg.requestId)?.(msg);
+                }
+                break;
+
+            case 'file-access-denied':
+                if (role === 'Guest' && typeof msg.path === 'string' && (!msg.targetId || msg.targetId === currentUserId)) {
+                    settleFileReads(msg.path, undefined);
+                    const wasPending = pendingFileContentRequests.delete(msg.path);
+                    pendingFileContentAt.delete(msg.path);
+                    pendingResyncs.delete(msg.path);
+                    if (wasPending) {
+                        vscode.window.showErrorMessage(`Code with me: ${path.basename(msg.path)} cannot be opened. ${msg.reason || ''}`.trim());
+                    }
+                }
+                break;
+
+            case 'file-too-large':
+                if (role === 'Guest' && typeof msg.path === 'string') { settleFileReads(msg.path, undefined); }
+                if (role === 'Guest' && typeof msg.path === 'string' && pendingFileContentRequests.delete(msg.path)) {
+                    pendingFileContentAt.delete(msg.path);
+                    vscode.window.showErrorMessage(`Code with me: ${path.basename(msg.path)} (${formatFileSize(msg.size)}) is larger than the host's ${formatFileSize(msg.limit)} transfer limit.`);
+                }
+                break;
+
             case 'workspace-info':
                 if (role === 'Guest') {
                     const payload = msg?.data ?? msg; // accept either wrapped or direct
@@ -1170,12 +2342,14 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
 
                     // Immediately populate Explorer view
                     if (codeWithMeTreeProvider && Array.isArray(payload?.tree)) {
-                        codeWithMeTreeProvider.setTree(payload.tree);
+                        codeWithMeTreeProvider.setTree(payload.tree, getWorkspaceRootPaths(payload), payload.treeTotal);
                         // NEW: Handle permissions from host
                         if (payload.permissions) {
                             guestSessionPermissions = payload.permissions;
+                            registerGuestFileSystem(!guestSessionPermissions?.allowGuestEdit);
                             const mode = guestSessionPermissions?.allowGuestEdit ? 'Read & Write' : 'Read-only';
                             vscode.window.showInformationMessage(`Session mode is: ${mode}.`);
+                            updateGuestContextKeys();
                         }
                         console.log('[CodeWithMe] Guest: Code with me Explorer populated');
                     }
@@ -1216,14 +2390,13 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
                 if (role === 'Host') {
                     try {
                         const filePath = msg.filePath || msg.data;
-                        const guestId = msg.participantId || msg.guestId;
-                        const guestName = msg.userName || (guestId && currentSession?.participants?.get(guestId)?.name) || 'Guest';
+                        const guestName = msg.userName || (senderId && currentSession?.participants?.get(senderId)?.name) || 'Guest';
                         console.log('[CodeWithMe] Host: open-file received for', filePath);
-                        if (filePath) {
+                        if (filePath && await authorizeGuestFileRequest(filePath, senderId, 'open')) {
                             // Immediately stream content back to Guest (no local open)
                             await openFileForGuest(filePath);
                             // Broadcast a file-opened event so all participants see a notification
-                            try { ws?.send(JSON.stringify({ type: 'file-opened', filePath, participantId: guestId || msg.participantId, userName: guestName, timestamp: Date.now() })); } catch {}
+                            try { ws?.send(JSON.stringify({ type: 'file-opened', filePath, openerId: senderId?.replace(/^(guest-|host-)/, ''), userName: guestName, timestamp: Date.now() })); } catch {}
                         }
                     } catch (e) {
                         console.error('[CodeWithMe] Host: Failed to handle open-file:', e);
@@ -1236,9 +2409,9 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
                 if (role === 'Host') {
                     try {
                         const filePath = msg.filePath || msg.data;
-                        console.log('[CodeWithMe] Host: request-file-content received for', filePath);
-                        if (filePath) {
-                            await sendFileContentToGuestByPath(filePath);
+                        console.log('[CodeWithMe] Host: request-file-content received for', filePath, msg.resync ? '(resync)' : '');
+                        if (filePath && await authorizeGuestFileRequest(filePath, senderId, 'read')) {
+                            await sendFileContentToGuestByPath(filePath, !!msg.resync);
                         }
                     } catch (e) {
                         console.error('[CodeWithMe] Host: Failed to handle request-file-content:', e);
@@ -1254,6 +2427,58 @@ async function handleCollaborativeMessage(msg: any, role: 'Host' | 'Guest') {
                 await handleParticipantLeft(msg);
                 break;
 
+            case 'save-request':
+                if (role === 'Host') {
+                    await handleGuestSaveRequest(msg, senderId);
+                }
+                break;
+
+            case 'file-saved':
+                if (role === 'Guest' && typeof msg.filePath === 'string') {
+                    const name = path.basename(msg.filePath);
+                    if (msg.savedBy === currentUserId) {
+                        pendingSaveRequests.get(msg.requestId)?.resolve();
+                        updateSyncStatus(`Saved ${name} on host`, '$(check)');
+                    } else {
+                        if (guestDocumentMap.has(msg.filePath)) {
+                            markGuestDocumentSaved(msg.filePath);
+                            updateSyncStatus(`${msg.userName || 'A guest'} saved ${name}`, '$(check)');
+                        }
+                        fireGuestFileChanges([{ type: vscode.FileChangeType.Changed, uri: toCwmUri(msg.filePath) }]);
+                    }
+                }
+                break;
+
+            case 'save-rejected':
+                if (role === 'Guest' && msg.targetId === currentUserId) {
+                    updateSyncStatus('Save rejected', '$(error)');
+                    const pendingSave = pendingSaveRequests.get(msg.requestId);
+                    if (pendingSave) {
+                        // VS Code reports the failed save itself
+                        pendingSave.reject(msg.reason || 'The host rejected the save.');
+                    } else {
+                        vscode.window.showErrorMessage(`Code with me: ${path.basename(String(msg.filePath ?? ''))} was not saved. ${msg.reason || ''}`.trim());
+                    }
+                }
+                break;
+
+            // Guest asks the host to create, rename or delete an entry in the shared workspace
+            case 'file-operation-request':
+                if (role === 'Host') {
+                    await handleGuestFileOperation(msg, senderId);
+                }
+                break;
+
+            case 'file-operation-result':
+                if (role === 'Guest' && msg.targetId === currentUserId) {
+                    const resolvePending = pendingFileOperations.get(msg.requestId);
+                    if (resolvePending) {
+                        pendingFileOperations.delete(msg.requestId);
+                        resolvePending(msg);
+                    }
+                }
+                break;
+
             case 'permission-request':
                 if (role === 'Host') {
                     await handlePermissionRequest(msg);
@@ -1310,64 +2535,190 @@ function setupFileWatchers() {
     // Track watcher for disposal on session end
     sessionDisposables.push(fileWatcher);
 
-    // Disable change rebroadcast to prevent duplication with editor listeners
-    // fileWatcher.onDidChange(async (uri) => { /* intentionally disabled */ });
+    // Disk changes to shared files (git checkout, formatters, codegen) are diffed against the shared text;
+    // edits made in the editor are already in it, so they produce no diff and are not sent twice
+    const changeDisposable = fileWatcher.onDidChange(async (uri) => {
+        try {
+            if (await reloadIgnoreRulesFor(uri)) { return; }
+            // Listings carry file sizes
+            invalidateFolderListing(path.dirname(uri.fsPath));
+            await syncSharedFileFromDisk(uri);
+        } catch (e) {
+            console.error('[CodeWithMe] Host: file change stream error', e);
+        }
+    });
+    sessionDisposables.push(changeDisposable);
 
+    // Guests keep their explorer in step through incremental tree-add/tree-remove/tree-rename messages
     const createDisposable = fileWatcher.onDidCreate(async (uri) => {
         try {
-            if (ws && ws.readyState === 1) {
-                const content = await vscode.workspace.fs.readFile(uri);
-                ws.send(JSON.stringify({
-                    type: 'file-content',
-                    filePath: uri.fsPath,
-                    content: content.toString(),
-                    timestamp: Date.now(),
-                    originId: currentUserId
-                }));
-            }
+            if (await reloadIgnoreRulesFor(uri)) { return; }
+            invalidateFolderListing(path.dirname(uri.fsPath));
+            if (!(ws && ws.readyState === 1) || isRecentlyRenamed(uri.fsPath) || !isSharedWorkspacePath(uri.fsPath)) { return; }
+            const node = await buildWorkspaceNode(uri.fsPath);
+            if (!node) { return; }
+            sendTreeUpdate({ type: 'tree-add', parentPath: path.dirname(uri.fsPath), node });
         } catch (e) {
             console.error('[CodeWithMe] Host: file create stream error', e);
         }
     });
     sessionDisposables.push(createDisposable);
+
+    const deleteDisposable = fileWatcher.onDidDelete(async (uri) => {
+        try {
+            if (await reloadIgnoreRulesFor(uri)) { return; }
+            invalidateFolderListing(path.dirname(uri.fsPath));
+            invalidateFolderListing(uri.fsPath, true);
+            if (isRecentlyRenamed(uri.fsPath) || !isSharedWorkspacePath(uri.fsPath)) { return; }
+            for (const fp of Array.from(sharedDocs.keys())) {
+                if (isSameOrChildPath(fp, uri.fsPath)) { disposeSharedDoc(fp); }
+            }
+            if (ws && ws.readyState === 1) {
+                sendTreeUpdate({ type: 'tree-remove', path: uri.fsPath });
+            }
+        } catch (e) {
+            console.error('[CodeWithMe] Host: file delete stream error', e);
+        }
+    });
+    sessionDisposables.push(deleteDisposable);
+
+    // Renames made in VS Code arrive as one event; the watcher's delete/create pair for them is suppressed
+    const willRenameDisposable = vscode.workspace.onWillRenameFiles((event) => {
+        for (const { oldUri, newUri } of event.files) {
+            recentlyRenamedPaths.set(oldUri.fsPath, Date.now());
+            recentlyRenamedPaths.set(newUri.fsPath, Date.now());
+        }
+    });
+    sessionDisposables.push(willRenameDisposable);
+
+    const renameDisposable = vscode.workspace.onDidRenameFiles(async (event) => {
+        for (const { oldUri, newUri } of event.files) {
+            try {
+                renameSharedPaths(oldUri.fsPath, newUri.fsPath);
+                invalidateFolderListing(path.dirname(oldUri.fsPath));
+                invalidateFolderListing(path.dirname(newUri.fsPath));
+                invalidateFolderListing(oldUri.fsPath, true);
+                if (!(ws && ws.readyState === 1)) { continue; }
+                const oldShared = isSharedWorkspacePath(oldUri.fsPath);
+                const newShared = isSharedWorkspacePath(newUri.fsPath);
+                const node = newShared ? await buildWorkspaceNode(newUri.fsPath) : null;
+                if (oldShared && node) {
+                    sendTreeUpdate({ type: 'tree-rename', oldPath: oldUri.fsPath, newPath: newUri.fsPath, parentPath: path.dirname(newUri.fsPath), node });
+                } else if (oldShared) {
+                    sendTreeUpdate({ type: 'tree-remove', path: oldUri.fsPath });
+                } else if (node) {
+                    sendTreeUpdate({ type: 'tree-add', parentPath: path.dirname(newUri.fsPath), node });
+                }
+            } catch (e) {
+                console.error('[CodeWithMe] Host: file rename stream error', e);
+            }
+        }
+    });
+    sessionDisposables.push(renameDisposable);
+
+    // files.exclude is part of the ignore rules; guests get a fresh tree when it changes
+    const configDisposable = vscode.workspace.onDidChangeConfiguration(async (event) => {
+        if (!event.affectsConfiguration('files.exclude') || currentRole !== 'host') { return; }
+        ignoreRulesByRoot.clear();
+        folderListingCache.clear();
+        await ensureIgnoreRules();
+        broadcastWorkspaceState();
+    });
+    sessionDisposables.push(configDisposable);
     fileWatchersActive = true;
 }
 
+// Paths involved in a VS Code rename, so the watcher's delete/create events for them are not sent twice
+const recentlyRenamedPaths: Map<string, number> = new Map();
+const RENAME_SUPPRESS_MS = 2000;
+
+function isRecentlyRenamed(fsPath: string): boolean {
+    const at = recentlyRenamedPaths.get(fsPath);
+    if (at === undefined) { return false; }
+    if (Date.now() - at > RENAME_SUPPRESS_MS) {
+        recentlyRenamedPaths.delete(fsPath);
+        return false;
+    }
+    return true;
+}
+
+// Guest: open documents whose host file was deleted stay open but stop being shared
+function markGuestDocumentsDeleted(deletedPath: string) {
+    const affected = Array.from(guestDocumentMap.keys()).filter(fp => isSameOrChildPath(fp, deletedPath));
+    for (const fp of affected) {
+        disposeSharedDoc(fp);
+        guestDocumentMap.delete(fp);
+        lineOwnership.delete(fp);
+        lastProcessedContent.delete(fp);
+    }
+    if (affected.length > 0) {
+        const names = affected.map(fp => path.basename(fp)).join(', ');
+        vscode.window.showWarningMessage(`${names} was deleted on the host. Your open copy is no longer shared.`);
+    }
+}
+
+// Guest: keep open documents of a renamed host file (or folder) bound to the new path
+function remapGuestDocumentsAfterRename(oldPath: string, newPath: string) {
+    const affected = Array.from(guestDocumentMap.keys()).filter(fp => isSameOrChildPath(fp, oldPath));
+    renameSharedPaths(oldPath, newPath);
+    if (affected.length > 0) {
+        vscode.window.showInformationMessage(`${path.basename(oldPath)} was renamed to ${path.basename(newPath)} on the host.`);
+    }
+}
+
+// Move per-file session state (shared documents, guest buffers, attribution) from a renamed path to its new path.
+// Folder renames move every file below the folder.
+function renameSharedPaths(oldPath: string, newPath: string) {
+    const remap = (fp: string) => newPath + fp.substring(oldPath.length);
+    const moveKeys = <T>(map: Map<string, T>) => {
+        for (const key of Array.from(map.keys())) {
+            if (isSameOrChildPath(key, oldPath)) {
+                const value = map.get(key)!;
+                map.delete(key);
+                map.set(remap(key), value);
+            }
+        }
+    };
+    moveKeys(sharedDocs);
+    moveKeys(sharedRevisions);
+    moveKeys(unacknowledgedChanges);
+    moveKeys(pendingChanges);
+    moveKeys(guestDocumentMap);
+    moveKeys(lineOwnership);
+    moveKeys(lastProcessedContent);
+}
+
 // Setup editor change listeners for collaborative editing
 function setupEditorChangeListeners() {
     if (sessionListenersActive) {
         console.log('[CodeWithMe] Editor listeners already active; skipping re-register');
         return;
     }
-    // Per-file debounce and seq/version tracking handled at module scope
-    // Guest-side debounce map to suppress discard/close-induced full clears
-    const pendingFullClears = new Map<string, { changes: any[]; timer: NodeJS.Timeout; doc: vscode.TextDocument }>();
 
     const onChangeDisp = vscode.workspace.onDidChangeTextDocument(async (event) => {
         console.count('[CodeWithMe] onDidChangeTextDocument fired');
         // Skip if this file is currently being updated from remote
         const eventFilePath = event.document.uri.fsPath;
 
-        // NEW: Robust promise-based guard.
-        // If this change is a known remote edit, resolve the confirmation promise and stop.
-        // Map guest untitled documents back to their host path for guarding
+        // Map guest cwm: documents back to their resource id for guarding
         let guardKey = eventFilePath;
         if (currentRole === 'guest') {
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === event.document) { guardKey = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === event.document) { guardKey = resourceId; break; }
                 }
             } catch {}
         }
         if (updatingFromRemoteFiles.has(guardKey)) {
-            const promiseControls = editConfirmationPromises.get(guardKey);
-            if (promiseControls) {
-                console.log(`[CodeWithMe] Confirmed remote edit for ${guardKey}, suppressing echo.`);
-                promiseControls.resolve();
-                // The promise is now fulfilled, but we leave the cleanup to the handleFileChange function
-            } else {
-                console.warn(`[CodeWithMe] Guarded event fired for ${guardKey}, but no promise found.`);
-            }
+            return;
+        }
+        // Echo of a remote Yjs update we just pushed into this buffer: fold the update into the Y.Doc now
+        const pendingRemote = pendingRemoteApplies.get(guardKey);
+        if (pendingRemote && event.document.getText() === pendingRemote.text) {
+            pendingRemoteApplies.delete(guardKey);
+            const ydoc = sharedDocs.get(guardKey);
+            if (ydoc) { Y.applyUpdate(ydoc, pendingRemote.update, REMOTE_ORIGIN); }
+            try { lastProcessedContent.set(guardKey, pendingRemote.text); } catch {}
             return;
         }
 
@@ -1380,29 +2731,14 @@ function setupEditorChangeListeners() {
         }
 
         const document = event.document;
-        // Prefer the original host path if this is an untitled guest document we mapped
-        let filePath = document.uri.fsPath;
-        if (currentRole === 'guest') {
-            try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === document) { filePath = hostPath; break; }
-                }
-            } catch {}
-        }
+        // Prefer the original resource id if this is a guest document we mapped
+        const filePath = guardKey;
         const who = getDisplayUserName(currentRole || undefined as any);
 
         if (event.contentChanges && event.contentChanges.length > 0) {
             // If a previous full-clear is pending for this file (we were waiting to see if the doc closes),
-            // and another edit arrives, treat it as intentional editing: merge the pending clear and continue.
-            const pendingFC = pendingFullClears.get(filePath);
-            if (pendingFC) {
-                try { clearTimeout(pendingFC.timer); } catch {}
-                pendingFullClears.delete(filePath);
-                if (!pendingChanges.has(filePath)) {pendingChanges.set(filePath, []);}
-                pendingChanges.get(filePath)!.push(...pendingFC.changes);
-            }
-            // Guard: if guest discards an untitled buffer, VS Code may emit a single change
-            // that clears the entire document before closing. Suppress broadcasting that.
+            // and another edit arrives, treat it as intentional editing: record the pending clear and continue.
+            flushPendingFullClear(filePath);
             console.log('[CodeWithMe] onDidChangeTextDocument: PROCESS local changes', {
                 file: filePath,
                 changes: event.contentChanges.length
@@ -1424,7 +2760,7 @@ function setupEditorChangeListeners() {
             try {
                 let editors: vscode.TextEditor[] = [];
                 if (currentRole === 'guest') {
-                    const mappedDoc = guestUntitledMap.get(filePath);
+                    const mappedDoc = guestDocumentMap.get(filePath);
                     if (mappedDoc) {
                         editors = vscode.window.visibleTextEditors.filter(e => e.document === mappedDoc);
                     }
@@ -1434,67 +2770,38 @@ function setupEditorChangeListeners() {
                 editors.forEach(e => refreshOwnershipDecorations(e));
             } catch {}
 
-            // Batch changes
-            if (!pendingChanges.has(filePath)) {
-                pendingChanges.set(filePath, []);
-            }
-            
-            const changes = event.contentChanges.map(change => ({
-                range: {
-                    start: { line: change.range.start.line, character: change.range.start.character },
-                    end: { line: change.range.end.line, character: change.range.end.character }
-                },
-                rangeLength: change.rangeLength,
+            const changes: SharedTextChange[] = event.contentChanges.map(change => ({
                 rangeOffset: change.rangeOffset,
-                text: change.text,
-                timestamp: Date.now()
+                rangeLength: change.rangeLength,
+                text: change.text
             }));
-            
-            // Special handling for guest single full-clear: debounce to see if the document is being closed.
+
+            // Guard: if guest discards a buffer, VS Code may emit a single change
+            // that clears the entire document before closing. Hold that back briefly to see if the document closes.
             let handledAsPendingFullClear = false;
             if (currentRole === 'guest' && event.contentChanges.length === 1) {
                 const ch = event.contentChanges[0];
                 const prevLen = (lastProcessedContent.get(filePath) || '').length;
-                // Consider either our last known length or the current document length for robustness
-                const docLen = document.getText().length;
-                const baseLen = Math.max(prevLen, docLen);
-                const isFullClear = ch.rangeOffset === 0 && ch.rangeLength === baseLen && ch.text === '';
+                const sharedLen = sharedDocs.get(filePath)?.getText(SHARED_TEXT_NAME).length ?? 0;
+                const baseLen = Math.max(prevLen, sharedLen);
+                const isFullClear = ch.rangeOffset === 0 && ch.rangeLength > 0 && ch.rangeLength === baseLen && ch.text === '';
                 if (isFullClear) {
-                    // Hold this clear briefly; if the doc closes, we drop it. Otherwise, we send it.
-                    const timer = setTimeout(() => {
-                        // Timer fired: consider this an intentional clear; enqueue and send
-                        if (!pendingChanges.has(filePath)) {pendingChanges.set(filePath, []);}                        
-                        pendingChanges.get(filePath)!.push(...changes);
-                        pendingFullClears.delete(filePath);
-                        try { lastProcessedContent.set(filePath, document.getText()); } catch {}
-                        if (batchTimeout) {clearTimeout(batchTimeout);}                        
-                        batchTimeout = setTimeout(() => { sendBatchUpdates(); }, BATCH_DELAY);
-                    }, 300);
+                    // Timer fired: consider this an intentional clear and record it
+                    const timer = setTimeout(() => flushPendingFullClear(filePath), 300);
                     pendingFullClears.set(filePath, { changes, timer, doc: document });
                     handledAsPendingFullClear = true;
                 }
             }
 
+            // Record the edit in the shared Y.Text; its update listener batches the outgoing update
             if (!handledAsPendingFullClear) {
-                if (!pendingChanges.has(filePath)) {pendingChanges.set(filePath, []);}
-                pendingChanges.get(filePath)!.push(...changes);
+                applyLocalChangesToSharedDoc(filePath, changes);
             }
             // Update last known content after applying local change
             try { lastProcessedContent.set(filePath, document.getText()); } catch {}
-            
-            // Clear any existing timeout and set a new one
-            if (batchTimeout) {
-                clearTimeout(batchTimeout);
-            }
-            
-            // If we handled as pending full clear, sending is scheduled by its timer; otherwise use normal batch timer
-            if (!handledAsPendingFullClear) {
-                batchTimeout = setTimeout(() => {
-                    sendBatchUpdates();
-                }, BATCH_DELAY);
-            }
         }
     });
+    sessionDisposables.push(onChangeDisp);
 
     // If a guest closes a document while a full-clear is pending, cancel the clear (treat as discard/close)
     const onDidCloseDisp = vscode.workspace.onDidCloseTextDocument((closedDoc) => {
@@ -1508,16 +2815,17 @@ function setupEditorChangeListeners() {
                     console.log('[CodeWithMe] Guest: Cancelled pending full clear due to document close', fp);
                 }
             }
-            // Resolve the host path for this closed doc and drop any enqueued pendingChanges to avoid sending empties
+            // Resolve the resource id for this closed doc and drop its shared document; reopening fetches fresh state
             let hostPathForClosed = closedDoc.uri.fsPath;
+            let wasShared = false;
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === closedDoc) { hostPathForClosed = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === closedDoc) { hostPathForClosed = resourceId; wasShared = true; break; }
                 }
             } catch {}
-            if (pendingChanges.has(hostPathForClosed)) {
-                pendingChanges.delete(hostPathForClosed);
-                console.log('[CodeWithMe] Guest: Dropped pending changes for closed document', hostPathForClosed);
+            if (wasShared) {
+                disposeSharedDoc(hostPathForClosed);
+                console.log('[CodeWithMe] Guest: Released shared document for closed file', hostPathForClosed);
             }
             // Also clear cursor debounce state for this file if applicable
             try { const t = cursorSendTimers.get(hostPathForClosed); if (t) { clearTimeout(t); } } catch {}
@@ -1525,22 +2833,7 @@ function setupEditorChangeListeners() {
             lastSentCursorPos.delete(hostPathForClosed);
         } catch {}
     });
-
-    // Prevent guest from saving any file during a session
-    const onWillSaveDisp = vscode.workspace.onWillSaveTextDocument(async (event) => {
-        if (currentRole === 'guest') {
-            try {
-                vscode.window.showErrorMessage('Guests cannot save files during a collaboration session. Changes are not saved.');
-                // Ensure we revert the same document that is being saved
-                await vscode.window.showTextDocument(event.document, { preserveFocus: true, preview: false });
-                // Revert discards pending changes so the save becomes a no-op
-                await vscode.commands.executeCommand('workbench.action.files.revert');
-            } catch {}
-            // Do not provide edits; allow the (now clean) save to proceed as a no-op
-            event.waitUntil(Promise.resolve([]));
-        }
-    });
-    sessionDisposables.push(onWillSaveDisp);
+    sessionDisposables.push(onDidCloseDisp);
 
     // Broadcast a "file-opened" event whenever the active editor changes (host or guest)
     const onActiveEditorDisp = vscode.window.onDidChangeActiveTextEditor((editor) => {
@@ -1549,10 +2842,12 @@ function setupEditorChangeListeners() {
             let fp = editor.document.uri.fsPath;
             if (currentRole === 'guest') {
                 try {
-                    for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                        if (doc === editor.document) { fp = hostPath; break; }
+                    for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                        if (doc === editor.document) { fp = resourceId; break; }
                     }
                 } catch {}
+                // Only host files are announced; the guest's own files stay private
+                if (fp === editor.document.uri.fsPath) { return; }
             }
             if (!fp) { return; }
             const now = Date.now();
@@ -1580,12 +2875,12 @@ function setupEditorChangeListeners() {
         console.count('[CodeWithMe] onDidChangeTextEditorSelection fired');
         if (!(ws && ws.readyState === 1)) { return; }
 
-        // Map guest untitled doc back to host path
+        // Map guest cwm: doc back to resource id
         let selFilePath = event.textEditor.document.uri.fsPath;
         if (currentRole === 'guest') {
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === event.textEditor.document) { selFilePath = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === event.textEditor.document) { selFilePath = resourceId; break; }
                 }
             } catch {}
         }
@@ -1638,29 +2933,32 @@ function setupEditorChangeListeners() {
 function sendBatchUpdates() {
     if (!ws || ws.readyState !== WebSocket.OPEN) {return;}
     
-    pendingChanges.forEach((changes, filePath) => {
-        if (changes.length === 0) {return;}
+    pendingChanges.forEach((updates, filePath) => {
+        if (updates.length === 0) {return;}
         
-        // Preserve original capture order; do not resort by timestamp
-        
-        // Per-file, per-sender monotonic sequence
-        const nextSeq = (fileSeqCounter.get(filePath) || 0) + 1;
-        fileSeqCounter.set(filePath, nextSeq);
+        // Yjs updates commute, so the batch collapses into a single update
+        const update = updates.length === 1 ? updates[0] : Y.mergeUpdates(updates);
         const messageId = crypto.randomUUID();
+        // Host changes are accepted as they are made; guest changes carry the revision they were made against
+        const isHost = currentRole === 'host';
+        const ytext = sharedDocs.get(filePath)?.getText(SHARED_TEXT_NAME);
+        // A host checksum must describe exactly the revisions sent so far; skip it while a remote apply is in flight
+        const checksum = ytext && !(isHost && perFileApplyQueue.has(filePath)) ? computeContentHash(ytext.toString()) : undefined;
+        if (!isHost) {
+            if (!unacknowledgedChanges.has(filePath)) { unacknowledgedChanges.set(filePath, new Set()); }
+            unacknowledgedChanges.get(filePath)!.add(messageId);
+        }
 
         ws!.send(JSON.stringify({
             type: 'file-change',
             filePath: filePath,
             originId: currentUserId,
             messageId,
-            changes: changes.map(c => ({
-                range: c.range,
-                rangeLength: c.rangeLength,
-                rangeOffset: c.rangeOffset,
-                text: c.text
-            })),
+            update: encodeSharedUpdate(update),
+            revision: isHost ? nextSharedRevision(filePath) : undefined,
+            baseRevision: isHost ? undefined : (sharedRevisions.get(filePath) || 0),
+            checksum,
             timestamp: Date.now(),
-            sequence: nextSeq,
             user: cwmCurrentIdentity ? { 
                 userId: cwmCurrentIdentity.userId, 
                 userName: cwmCurrentIdentity.userName 
@@ -1680,16 +2978,27 @@ function setupGuestEditorListeners() {
     setupEditorChangeListeners(); // Same as host for now
 }
 
-// Handle file changes from collaborators
-async function handleFileChange(msg: any, role: 'Host' | 'Guest') {
+// Handle file changes (Yjs updates) from collaborators
+async function handleFileChange(msg: any, role: 'Host' | 'Guest', senderId?: string) {
     let filePath: string | undefined;
     try {
         console.count('[CodeWithMe] handleFileChange fired');
         filePath = msg.filePath || msg.path;
         if (!filePath) {return;}
 
-        // Drop our own echoes
+        // Drop our own echoes, but learn the revision the host assigned to our change
         if (msg.originId && msg.originId === currentUserId) {
+            if (role === 'Guest' && typeof msg.revision === 'number' && sharedDocs.has(filePath)) {
+                sharedRevisions.set(filePath, Math.max(sharedRevisions.get(filePath) || 0, msg.revision));
+                if (msg.messageId) { unacknowledgedChanges.get(filePath)?.delete(msg.messageId); }
+            }
+            return;
+        }
+
+        // A large file is still arriving: hold its changes until the snapshot they follow is open
+        const deferred = role === 'Guest' && !sharedDocs.has(filePath) ? incomingTransferChanges.get(filePath) : undefined;
+        if (deferred) {
+            deferred.push(msg);
             return;
         }
 
@@ -1705,200 +3014,97 @@ async function handleFileChange(msg: any, role: 'Host' | 'Guest') {
             }
         }
 
-        // Check sequence number for ordering
-        const senderId = msg.originId || 'unknown';
-        let perSender = lastProcessedSeqByFileAndSender.get(filePath);
-        if (!perSender) {
-            perSender = new Map<string, number>();
-            lastProcessedSeqByFileAndSender.set(filePath, perSender);
-        }
-        const lastSeq = perSender.get(senderId) || 0;
-        if (typeof msg.sequence === 'number' && msg.sequence <= lastSeq) {
-            console.log('[CodeWithMe] Out-of-order/duplicate sequence, ignoring', { filePath, senderId, seq: msg.sequence, lastSeq });
+        if (typeof msg.update !== 'string') {
+            console.warn('[CodeWithMe] Received file-change message without a Yjs update. Ignoring.');
             return;
         }
-        if (typeof msg.sequence === 'number') {
-            perSender.set(senderId, msg.sequence);
-        }
-
-        await enqueueFileChange(filePath, async () => {
-        updatingFromRemoteFiles.add(filePath!);
 
-        // Create a confirmation promise that the onDidChangeTextDocument handler will resolve.
-        const confirmationPromise = new Promise<void>((resolve, reject) => {
-            editConfirmationPromises.set(filePath!, { resolve, reject });
-        });
-
-        try {
-        // Resolve target document for applying remote edits
-        let doc: vscode.TextDocument;
-        if (role === 'Guest') {
-            const mapped = guestUntitledMap.get(filePath!);
-            if (mapped && !mapped.isClosed) {
-                doc = mapped;
-            } else {
-                // If the document is not in our map or is closed, do nothing.
-                // The changes will be synced when the guest manually re-opens the file.
-                console.log(`[CodeWithMe] Guest: Ignoring change for untracked/closed doc ${filePath}.`);
-                return;
-            }
-        } else {
-            try {
-                doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath!));
-            } catch {
-                console.warn(`[CodeWithMe] Host: Could not open ${filePath} for applying changes.`);
+        // Host enforces read-only sessions: guest edits never reach the shared document
+        if (role === 'Host' && !hostSessionPermissions?.allowGuestEdit) {
+            console.warn('[CodeWithMe] Host: Dropping guest edit in read-only session for', filePath);
+            return;
+        }
+        // Host: only participants allowed to edit may change shared files, as with saves and file operations
+        if (role === 'Host') {
+            const participant = senderId ? currentSession?.participants.get(senderId) : undefined;
+            if (!participant || removedParticipantIds.has(participant.id) || !participant.permissions.canEdit) {
+                console.warn('[CodeWithMe] Host: Dropping edit from a guest without edit rights', { senderId, filePath });
                 return;
             }
         }
-        
-        // The new logic MUST use deltas (changes).
-        if (!msg.changes || !Array.isArray(msg.changes)) {
-            console.warn('[CodeWithMe] Received file-change message without changes array. Ignoring.');
-            return;
-        }
 
-        // Host-side guard: suppress a single "full clear to empty" delta that matches
-        // a typical close/revert-induced clear from a guest untitled buffer.
-        // This avoids accidental emptying of the host file when the guest closes without saving.
-        // IMPORTANT: If the host currently allows guest editing, honor the edit (do not suppress)
-        // so that intentional select-all + backspace by a guest will apply to the host.
-        if (role === 'Host' && msg.changes.length === 1 && !(hostSessionPermissions?.allowGuestEdit)) {
-            try {
-                const ch = msg.changes[0];
-                if (ch && ch.text === '' && ch.range && ch.range.start && ch.range.end) {
-                    const startZero = ch.range.start.line === 0 && ch.range.start.character === 0;
-                    const lastLine = Math.max(0, doc.lineCount - 1);
-                    const endPos = doc.lineAt(lastLine).range.end;
-                    const endMatches = ch.range.end.line === endPos.line && ch.range.end.character === endPos.character;
-                    const len = doc.getText().length;
-                    const rangeLenOk = typeof ch.rangeLength === 'number' ? (ch.rangeLength === len) : true;
-                    if (startZero && endMatches && rangeLenOk) {
-                        console.warn('[CodeWithMe] Host: Suppressing potential close-induced full clear for', filePath);
-                        return;
-                    }
-                }
-            } catch {}
+        if (!sharedDocs.has(filePath)) {
+            // Guests only track files they opened; the full state arrives with file-content when they do
+            console.log(`[CodeWithMe] ${role}: Ignoring change for file without a shared document ${filePath}.`);
+            return;
         }
 
-        // We'll apply edits in the original sender-provided order to preserve intent.
-        const changesToApply: { range: vscode.Range; text: string; rangeOffset?: number; _idx: number }[] = [];
-
-        // First, validate all changes
-        for (const change of msg.changes) {
-            // Add a guard to ensure the change object has the expected structure
-            if (!change.range || !change.range.start || !change.range.end) {
-                console.warn('[CodeWithMe] Received a file-change object without a valid range. Skipping.', change);
-                continue;
+        // Guests apply host-stamped revisions once; a gap means messages were missed.
+        // Yjs holds updates with missing dependencies until they arrive, so applying past a gap is safe.
+        if (role === 'Guest' && typeof msg.revision === 'number') {
+            const lastRevision = sharedRevisions.get(filePath) || 0;
+            if (msg.revision <= lastRevision) {
+                console.log('[CodeWithMe] Guest: Already applied revision, ignoring', { filePath, revision: msg.revision, lastRevision });
+                return;
             }
-
-            try {
-                const range = new vscode.Range(
-                    new vscode.Position(change.range.start.line, change.range.start.character),
-                    new vscode.Position(change.range.end.line, change.range.end.character)
-                );
-                
-                // Store the change for later application
-                changesToApply.push({
-                    range,
-                    text: change.text,
-                    rangeOffset: typeof change.rangeOffset === 'number' ? change.rangeOffset : undefined,
-                    _idx: changesToApply.length // preserve original capture order as stable tiebreaker
-                });
-            } catch (e) {
-                console.error('[CodeWithMe] Error processing change:', e);
-                continue;
+            if (msg.revision > lastRevision + 1) {
+                console.warn('[CodeWithMe] Guest: Revision gap detected', { filePath, expected: lastRevision + 1, received: msg.revision });
             }
+            sharedRevisions.set(filePath, msg.revision);
         }
 
-        // Do not sort; preserve the order captured by the sender
-
-        // Preserve and restore local selection so caret does not shift when others edit above
-        const editor = vscode.window.visibleTextEditors.find(e => e.document === doc);
-        const selectionBefore = editor?.selection;
-
-        // Apply all sorted changes in a single atomic transaction
-        const combinedEdit = new vscode.WorkspaceEdit();
-        for (const { range, text } of changesToApply) {
-            combinedEdit.replace(doc.uri, range, text);
+        // Host: a guest change made against an older revision is concurrent with the changes it has not seen.
+        // Merging it into the Y.Doc rebases it over them; every replica resolves the overlap identically.
+        const revisionAtReceipt = sharedRevisions.get(filePath) || 0;
+        if (role === 'Host' && typeof msg.baseRevision === 'number') {
+            const currentRevision = revisionAtReceipt;
+            if (msg.baseRevision < currentRevision) {
+                console.log('[CodeWithMe] Host: Rebasing stale guest change', { filePath, baseRevision: msg.baseRevision, currentRevision });
+            } else if (msg.baseRevision > currentRevision) {
+                console.warn('[CodeWithMe] Host: Guest change claims an unknown base revision', { filePath, baseRevision: msg.baseRevision, currentRevision });
+            }
         }
-        const success = await vscode.workspace.applyEdit(combinedEdit);
 
-        // Smart selection restore:
-        // - If ALL incoming changes start strictly after the caret start, restore selection (no caret shift).
-        // - If ANY incoming change starts at or before the caret start, do NOT restore, so caret follows text naturally,
-        //   EXCEPT: if a newline was inserted at or before the caret start on this line, keep the caret on the previous line's end
-        //   so it does not drop to the next line on remote Enter.
-        if (editor && selectionBefore) {
-            try {
-                const caretStart = selectionBefore.start;
-                let anyAtOrBeforeCaret = false;
-                let newlineOnCaretLineBeforeOrAtCaret = false;
-                for (const { range } of changesToApply) {
-                    if (range.start.isBeforeOrEqual(caretStart)) { anyAtOrBeforeCaret = true; break; }
-                }
-                if (!anyAtOrBeforeCaret) {
-                    // All edits after caret: safe to restore exactly
-                    editor.selection = selectionBefore;
-                } else {
-                    // Some edit at/before caret: do not pin caret, except handle remote Enter on the SAME line specially
-                    // Detect newline insertion relative to caret
-                    for (const change of msg.changes || []) {
-                        try {
-                            const hasNewline = typeof change.text === 'string' && change.text.indexOf('\n') !== -1;
-                            if (!hasNewline) { continue; }
-                            // Compare using offsets if provided; else compare using range start
-                            if (typeof change.rangeOffset === 'number') {
-                                const caretOffset = doc.offsetAt(caretStart);
-                                const chPos = doc.positionAt(change.rangeOffset);
-                                if (chPos.line === caretStart.line && change.rangeOffset <= caretOffset) { newlineOnCaretLineBeforeOrAtCaret = true; break; }
-                            } else if (change.range && change.range.start) {
-                                const chStart = new vscode.Position(change.range.start.line, change.range.start.character);
-                                if (chStart.line === caretStart.line && chStart.isBeforeOrEqual(caretStart)) { newlineOnCaretLineBeforeOrAtCaret = true; break; }
-                            }
-                        } catch {}
-                    }
-                    if (newlineOnCaretLineBeforeOrAtCaret) {
-                        // Keep caret at end of the (previous) line so it doesn't drop to next line
-                        const targetLine = Math.max(0, Math.min(caretStart.line, editor.document.lineCount - 1));
-                        const endPos = editor.document.lineAt(targetLine).range.end;
-                        editor.selection = new vscode.Selection(endPos, endPos);
-                    }
-                    // Otherwise, allow VS Code to move caret naturally with text
+        const update = decodeSharedUpdate(msg.update);
+        await enqueueFileChange(filePath, async () => {
+            const edits = await applyRemoteSharedUpdate(filePath!, update, role);
+            if (edits === null) {
+                console.error(`[CodeWithMe] ${role}: Failed to apply edit for ${filePath}`);
+                if (role === 'Guest') {
+                    requestFileResync(filePath!, 'edit could not be applied');
                 }
-            } catch (e) {
-                console.warn('[CodeWithMe] Smart selection restore skipped due to error', e);
+                return;
             }
-        }
-
-        if (success) {
-            // Wait for the onDidChangeTextDocument handler to confirm it saw the event.
-            // This is far more reliable than a fixed setTimeout.
-            const timeoutPromise = new Promise<void>((_, reject) => 
-                setTimeout(() => reject(new Error('Timeout waiting for edit confirmation event')), 1000)
-            );
 
-            try {
-                await Promise.race([confirmationPromise, timeoutPromise]);
-            } catch (e) {
-                console.warn(`[CodeWithMe] Did not receive edit confirmation for ${filePath}. The sync guard might be stale. Error:`, e);
-                // The promise might have been rejected by the timeout. Clean up the resolver.
-                const promiseControls = editConfirmationPromises.get(filePath!);
-                promiseControls?.reject(e);
+            if (role === 'Guest') {
+                verifySharedChecksum(filePath!, msg);
+            } else if (typeof msg.checksum === 'string' && msg.baseRevision === revisionAtReceipt
+                && sharedRevisions.get(filePath!) === revisionAtReceipt && !pendingChanges.get(filePath!)?.length) {
+                // The guest saw every revision and the host made no edit since: both buffers must now match
+                const hostDoc = await resolveSharedTextDocument(filePath!, 'Host');
+                if (hostDoc && computeContentHash(hostDoc.getText()) !== msg.checksum) {
+                    console.warn('[CodeWithMe] Host: Guest checksum mismatch, asking guest to resync', { filePath, originId: msg.originId });
+                    try { ws?.send(JSON.stringify({ type: 'file-resync', filePath, targetId: msg.originId, timestamp: Date.now() })); } catch {}
+                }
             }
 
-
             // If we are the Host and this change originated from a Guest, forward it to other Guests
             if (role === 'Host' && ws && ws.readyState === WebSocket.OPEN) {
                 const fromGuest = msg.originId && msg.originId !== currentUserId;
                 if (fromGuest) {
                     try {
+                        // Send pending host edits first so the checksum below covers exactly the revisions sent
+                        sendBatchUpdates();
+                        const forwardedText = sharedDocs.get(filePath!)?.getText(SHARED_TEXT_NAME).toString();
                         const forwardPayload = {
                             type: 'file-change',
                             filePath: filePath,
                             originId: msg.originId, // preserve original sender
                             messageId: msg.messageId, // preserve for global de-dupe
-                            sequence: msg.sequence, // preserve per-file ordering from original sender
-                            changes: msg.changes,
+                            update: msg.update,
+                            revision: nextSharedRevision(filePath!), // host-assigned order of accepted changes
+                            baseRevision: msg.baseRevision,
+                            checksum: forwardedText !== undefined ? computeContentHash(forwardedText) : undefined,
                             timestamp: msg.timestamp || Date.now(),
                             user: msg.user, // preserve user info
                             forwardedByHost: true
@@ -1907,7 +3113,7 @@ async function handleFileChange(msg: any, role: 'Host' | 'Guest') {
                         console.log('[CodeWithMe] Host: Forwarded guest change to other guests', {
                             filePath,
                             originId: msg.originId,
-                            sequence: msg.sequence,
+                            revision: forwardPayload.revision,
                             messageId: msg.messageId
                         });
                     } catch (e) {
@@ -1923,45 +3129,26 @@ async function handleFileChange(msg: any, role: 'Host' | 'Guest') {
                 lineOwnership.set(filePath!, map); 
             }
 
-            for (const change of msg.changes) {
-                if (!change.range || !change.range.start || !change.range.end) {
-                    continue;
-                }
-
-                const insertedLines = change.text.split('\n').length - 1;
-                const startLine = change.range.start.line;
-                const endLine = Math.max(startLine, change.range.end.line + insertedLines);
+            for (const edit of edits) {
+                const insertedLines = edit.text.split('\n').length - 1;
+                const startLine = edit.range.start.line;
+                const endLine = Math.max(startLine, edit.range.end.line + insertedLines);
                 for (let ln = startLine; ln <= endLine; ln++) {
                     map.set(ln, { userName });
                 }
             }
 
             // Apply persistent decorations for this document
-            const editors = role === 'Guest'
-                ? vscode.window.visibleTextEditors.filter(e => e.document === doc)
-                : vscode.window.visibleTextEditors.filter(e => e.document.fileName === filePath);
+            const doc = await resolveSharedTextDocument(filePath!, role);
+            const editors = doc ? vscode.window.visibleTextEditors.filter(e => e.document === doc) : [];
             for (const ed of editors) {
                 refreshOwnershipDecorations(ed);
             }
 
             updateSyncStatus(`${userName} edit applied`, '$(sync)');
-        } else {
-            // If applyEdit failed, we must clean up the promise to prevent a memory leak.
-            const promiseControls = editConfirmationPromises.get(filePath!);
-            promiseControls?.reject(new Error('applyEdit failed'));
-            console.error(`[CodeWithMe] ${role}: Failed to apply edit for ${filePath}`);
-            // Consider requesting a full resync for this file
-        }
-        } finally {
-            // Always clear guards for this file
-            updatingFromRemoteFiles.delete(filePath!);
-            editConfirmationPromises.delete(filePath!);
-        }
-    }); // end enqueueFileChange task
+        }); // end enqueueFileChange task
     } catch (error) {
         console.error(`[CodeWithMe] ${role}: Error handling file change:`, error);
-    } finally {
-        // Note: cleanup occurs inside the queued task's finally/flow to keep the guard scoped correctly
     }
 }
 
@@ -1990,8 +3177,8 @@ async function handleCursorPosition(msg: any, role: 'Host' | 'Guest') {
         let currentEditorHostPath = editor.document.uri.fsPath;
         if (currentRole === 'guest') {
             try {
-                for (const [hostPath, doc] of guestUntitledMap.entries()) {
-                    if (doc === editor.document) { currentEditorHostPath = hostPath; break; }
+                for (const [resourceId, doc] of guestDocumentMap.entries()) {
+                    if (doc === editor.document) { currentEditorHostPath = resourceId; break; }
                 }
             } catch {}
         }
@@ -2047,7 +3234,7 @@ async function handleWorkspaceInfo(msg: any) {
 
         // Update the Explorer tree immediately without user request
         if (codeWithMeTreeProvider) {
-            codeWithMeTreeProvider.setTree(info.tree);
+            codeWithMeTreeProvider.setTree(info.tree, getWorkspaceRootPaths(info), info.treeTotal);
         }
 
         // Feedback to user (non-blocking)
@@ -2060,17 +3247,14 @@ async function handleWorkspaceInfo(msg: any) {
 // Send workspace info to guests
 async function sendWorkspaceInfo() {
     if (ws && ws.readyState === 1) {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0];        
-        if (workspaceRoot) {
+        const roots = getSharedRootEntries();
+        if (roots.length > 0) {
             console.log('[CodeWithMe] Host: Getting workspace tree for guest...');
-            const tree = await getWorkspaceFiles(workspaceRoot.uri.fsPath);
             
             // Initialize session start on first send
             if (sessionStartMs == null) { sessionStartMs = Date.now(); }
             const workspaceInfo = {
-                name: workspaceRoot.name,
-                path: workspaceRoot.uri.fsPath,
-                tree: tree,
+                ...(await buildWorkspaceInfo(roots)),
                 permissions: hostSessionPermissions,
                 sessionStartMs
             };
@@ -2099,7 +3283,118 @@ function broadcastWorkspaceState() {
     }
 }
 
+// Host: resolve the GitHub access token a guest sent in its sealed hello to the account's login.
+// The token is used for this one lookup and not kept. Resolves to undefined when GitHub does not accept it.
+function verifyGitHubLogin(token: unknown): Promise<string | undefined> {
+    if (typeof token !== 'string' || !token) { return Promise.resolve(undefined); }
+    return new Promise(resolve => {
+        const req = https.get('https://api.github.com/user', {
+            headers: { Authorization: `Bearer ${token}`, 'User-Agent': 'code-with-me', Accept: 'application/vnd.github+json' },
+            timeout: 5000
+        }, res => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => { body += chunk; });
+            res.on('end', () => {
+                try {
+                    const login = res.statusCode === 200 ? JSON.parse(body).login : undefined;
+                    resolve(typeof login === 'string' ? login : undefined);
+                } catch {
+                    resolve(undefined);
+                }
+            });
+        });
+        req.on('timeout', () => req.destroy());
+        req.on('error', () => resolve(undefined));
+    });
+}
+
 // Handle participant events
+// Host: how a lobby guest is shown when asking the host to admit it
+function describeLobbyGuest(guest: LobbyGuest): string {
+    return guest.githubLogin ? `${guest.name} (GitHub: ${guest.githubLogin}, verified)` : `${guest.name} (unverified)`;
+}
+
+function isAutoAdmitted(guest: LobbyGuest): boolean {
+    if (!guest.githubLogin) { return false; }
+    const allowlist = vscode.workspace.getConfiguration('code-with-me').get<string[]>('autoAdmitGitHubLogins') ?? [];
+    return allowlist.some(login => login.trim().toLowerCase() === guest.githubLogin!.toLowerCase());
+}
+
+function registerGuestParticipant(pid: string, name: string, githubLogin?: string): Participant {
+    const participant: Participant = {
+        id: pid,
+        name,
+        role: 'guest',
+        permissions: {
+            canEdit: !!hostSessionPermissions?.allowGuestEdit,
+            canDebug: !!hostSessionPermissions?.allowGuestDebug,
+            canAccessTerminal: !!hostSessionPermissions?.allowGuestTerminal,
+            canCreateFiles: !!hostSessionPermissions?.allowGuestFileCreate,
+            canDeleteFiles: !!hostSessionPermissions?.allowGuestFileDelete,
+            canViewFiles: true,
+        },
+        lastSeen: new Date(),
+        githubLogin
+    };
+    currentSession?.participants.set(pid, participant);
+    refreshSessionStatusBar(); // turn green when first guest arrives
+    return participant;
+}
+
+// Host: a new guest introduced itself. Allowlisted GitHub logins are admitted straight away; anyone else
+// waits until the host answers the prompt or uses the host controls.
+async function placeGuestInLobby(pid: string, name: string, hello: any) {
+    const { githubToken, ...introduction } = hello ?? {};
+    const waiting = lobbyGuests.has(pid);
+    const githubLogin = await verifyGitHubLogin(githubToken);
+    // The guest may have left while its login was looked up
+    if (waiting && !lobbyGuests.has(pid)) { return; }
+    const guest: LobbyGuest = { ...(lobbyGuests.get(pid) ?? { id: pid, name }), githubLogin, hello: introduction };
+    lobbyGuests.set(pid, guest);
+    refreshSessionStatusBar();
+    if (githubLogin && bannedGitHubLogins.has(githubLogin.toLowerCase())) {
+        console.log('[CodeWithMe] Host: Denying removed GitHub account', githubLogin);
+        denyLobbyGuest(pid);
+        return;
+    }
+    if (isAutoAdmitted(guest)) {
+        console.log('[CodeWithMe] Host: Auto-admitting', guest.githubLogin);
+        await admitLobbyGuest(pid);
+        return;
+    }
+    console.log('[CodeWithMe] Host: Guest waiting in the lobby:', pid);
+    const choice = await vscode.window.showInformationMessage(`${describeLobbyGuest(guest)} wants to join the session.`, 'Admit', 'Deny');
+    // The guest may have left, or been handled from the host controls, while the prompt was open
+    if (!lobbyGuests.has(pid)) { return; }
+    if (choice === 'Admit') {
+        await admitLobbyGuest(pid);
+    } else if (choice === 'Deny') {
+        denyLobbyGuest(pid);
+    }
+}
+
+async function admitLobbyGuest(pid: string) {
+    const guest = lobbyGuests.get(pid);
+    if (!guest || !ws || ws.readyState !== WebSocket.OPEN) { return; }
+    lobbyGuests.delete(pid);
+    // The relay starts forwarding the host's messages to the guest before the welcome below is sent
+    ws.send(JSON.stringify({ type: 'admit-guest', participantId: pid, timestamp: Date.now() }));
+    registerGuestParticipant(pid, guest.name, guest.githubLogin);
+    vscode.window.showInformationMessage(guest.hello?.resume ? `${guest.name} reconnected` : `${guest.name} joined the session`);
+    if (guest.hello?.resume) {
+        await resumeGuestFiles(guest.hello.guestId, guest.hello.files);
+    } else {
+        await sendWorkspaceInfo();
+    }
+}
+
+function denyLobbyGuest(pid: string) {
+    if (!lobbyGuests.delete(pid)) { return; }
+    refreshSessionStatusBar();
+    try { ws?.send(JSON.stringify({ type: 'kick-guest', participantId: pid, guestId: pid, reason: 'denied', timestamp: Date.now() })); } catch {}
+}
+
 async function handleParticipantJoined(msg: any) {
     const pid = (msg.participantId || msg.guestId) as string | undefined;
     const userName = msg.userName || pid;
@@ -2113,33 +3408,32 @@ async function handleParticipantJoined(msg: any) {
                 existing.name = userName;
                 existing.lastSeen = new Date();
                 currentSession.participants.set(pid, existing);
-            } else {
-                currentSession.participants.set(pid, {
-                    id: pid,
-                    name: userName,
-                    role: 'guest',
-                    permissions: {
-                        canEdit: true,
-                        canDebug: false,
-                        canAccessTerminal: false,
-                        canCreateFiles: true,
-                        canDeleteFiles: false,
-                        canViewFiles: true,
-                    },
-                    lastSeen: new Date()
-                } as Participant);
+            } else if (msg.admitted) {
+                // Admitted earlier in this session, e.g. before it was removed as unreachable
+                registerGuestParticipant(pid, userName);
                 isNew = true;
+            } else {
+                // Not a participant until the host admits it; its hello-guest asks the host
+                lobbyGuests.set(pid, { ...lobbyGuests.get(pid), id: pid, name: userName });
+                refreshSessionStatusBar();
+                return;
             }
         }
     } catch {}
     refreshSessionStatusBar();
-    if (isNew && userName) {
+    // A guest rejoining after a dropped connection is announced by its hello-guest
+    if (isNew && userName && !msg.resumed) {
         vscode.window.showInformationMessage(`${userName} joined the session`);
     }
 }
 
 async function handleParticipantLeft(msg: any) {
     const participantId: string | undefined = msg?.participantId;
+    // A guest that leaves the lobby was never part of the session
+    if (participantId && lobbyGuests.delete(participantId) && !currentSession?.participants.has(participantId)) {
+        refreshSessionStatusBar();
+        return;
+    }
     let displayName: string = 'Guest';
     // Prefer an explicit name on the message, then fall back to the participants map
     if (msg?.userName && typeof msg.userName === 'string' && msg.userName.trim().length > 0) {
@@ -2159,7 +3453,9 @@ async function handleParticipantLeft(msg: any) {
         }
     } catch {}
     refreshSessionStatusBar();
-    vscode.window.showInformationMessage(`${displayName} left the session`);
+    vscode.window.showInformationMessage(msg.reason === 'unreachable'
+        ? `${displayName} stopped responding and was removed from the session`
+        : `${displayName} left the session`);
     participantCursors.delete(msg.participantId);
     // NEW: Clean up decorations for the participant who left
     if (participantCursorDecorations.has(msg.participantId)) {
@@ -2169,6 +3465,135 @@ async function handleParticipantLeft(msg: any) {
     updateParticipantCursors(); // Re-render to remove the cursor
 }
 
+type FileOperation = 'create-file' | 'create-folder' | 'rename' | 'delete';
+
+// Host: validate a guest file operation against session and participant permissions, then apply it.
+// Guests' explorers pick the result up from the file system watcher like any other change.
+async function handleGuestFileOperation(msg: any, senderId: string | undefined) {
+    const operation: FileOperation = msg.operation;
+    const targetId = senderId?.replace(/^(guest-|host-)/, '');
+    // code names the vscode.FileSystemError the guest's cwm: file system throws for a failure
+    const reply = (ok: boolean, error?: string, resultPath?: string, code?: 'NoPermissions' | 'FileExists' | 'Unavailable') => {
+        try {
+            ws?.send(JSON.stringify({ type: 'file-operation-result', requestId: msg.requestId, targetId, operation, ok, error, code, path: resultPath, timestamp: Date.now() }));
+        } catch {}
+    };
+
+    const participant = senderId ? currentSession?.participants.get(senderId) : undefined;
+    if (!participant || removedParticipantIds.has(participant.id)) {
+        reply(false, 'You are not a participant in this session.', undefined, 'NoPermissions');
+        return;
+    }
+    const needsCreate = operation === 'create-file' || operation === 'create-folder' || operation === 'rename';
+    const needsDelete = operation === 'delete' || operation === 'rename';
+    if (needsCreate && !(hostSessionPermissions?.allowGuestFileCreate && participant.permissions.canCreateFiles)) {
+        reply(false, 'The host does not allow guests to create files in this session.', undefined, 'NoPermissions');
+        return;
+    }
+    if (needsDelete && !(hostSessionPermissions?.allowGuestFileDelete && participant.permissions.canDeleteFiles)) {
+        reply(false, 'The host does not allow guests to delete files in this session.', undefined, 'NoPermissions');
+        return;
+    }
+
+    const nameError = (operation === 'delete') ? undefined : validateNewEntryName(String(msg.name ?? ''));
+    if (nameError) {
+        reply(false, nameError, undefined, 'NoPermissions');
+        return;
+    }
+    // Resolve the affected paths on the host and keep them inside the shared tree
+    const sourcePath = (operation === 'rename' || operation === 'delete') ? String(msg.path ?? '') : undefined;
+    const parentPath = operation === 'rename' ? path.dirname(sourcePath!) : String(msg.parentPath ?? '');
+    const targetPath = operation === 'delete' ? undefined : path.join(parentPath, String(msg.name).trim());
+    const denial = (sourcePath !== undefined ? await checkGuestPathAccess(sourcePath) : undefined)
+        ?? (targetPath !== undefined ? (await checkGuestPathAccess(parentPath) ?? await checkGuestPathAccess(targetPath, { advertised: false })) : undefined);
+    if (denial || (sourcePath !== undefined && isSharedRootPath(sourcePath))) {
+        reportGuestAccessDenied(sourcePath ?? targetPath, denial ?? 'workspace folders cannot be renamed or deleted', participant.id, operation);
+        reply(false, 'That path is outside the shared workspace.', undefined, 'NoPermissions');
+        return;
+    }
+
+    try {
+        if (operation === 'create-folder') {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.file(targetPath!));
+            // Empty folders are not listed by the tree builder, so announce this one explicitly
+            sendTreeUpdate({ type: 'tree-add', parentPath, node: { type: 'folder', name: path.basename(targetPath!), path: targetPath, children: [] } });
+        } else {
+            const edit = new vscode.WorkspaceEdit();
+            if (operation === 'create-file') {
+                edit.createFile(vscode.Uri.file(targetPath!), { overwrite: false, ignoreIfExists: false });
+            } else if (operation === 'rename') {
+                edit.renameFile(vscode.Uri.file(sourcePath!), vscode.Uri.file(targetPath!), { overwrite: false });
+            } else {
+                edit.deleteFile(vscode.Uri.file(sourcePath!), { recursive: true, ignoreIfNotExists: true });
+            }
+            if (!(await vscode.workspace.applyEdit(edit))) {
+                reply(false, 'The host could not apply the file operation (the target may already exist).', undefined, operation === 'delete' ? 'Unavailable' : 'FileExists');
+                return;
+            }
+        }
+    } catch (e) {
+        console.error('[CodeWithMe] Host: Guest file operation failed', operation, e);
+        reply(false, 'The host could not apply the file operation.', undefined, 'Unavailable');
+        return;
+    }
+
+    const subject = path.basename(targetPath ?? sourcePath!);
+    const verb = operation === 'delete' ? 'deleted' : operation === 'rename' ? `renamed ${path.basename(sourcePath!)} to` : 'created';
+    vscode.window.showInformationMessage(`${participant.name} ${verb} ${subject}`);
+    reply(true, undefined, targetPath ?? sourcePath);
+}
+
+// File and folder names entered in the Code with me explorer: a single path segment
+function validateNewEntryName(name: string): string | undefined {
+    const trimmed = name.trim();
+    if (!trimmed) { return 'Enter a name.'; }
+    if (trimmed === '.' || trimmed === '..' || /[\\/]/.test(trimmed)) { return 'Names cannot contain path separators.'; }
+    return undefined;
+}
+
+// Guest: context keys that show the explorer's file operation menu items
+function updateGuestContextKeys() {
+    const canCreate = currentRole === 'guest' && !!guestSessionPermissions?.allowGuestFileCreate;
+    const canDelete = currentRole === 'guest' && !!guestSessionPermissions?.allowGuestFileDelete;
+    vscode.commands.executeCommand('setContext', 'code-with-me.guestCanCreateFiles', canCreate);
+    vscode.commands.executeCommand('setContext', 'code-with-me.guestCanDeleteFiles', canDelete);
+}
+
+// Guest: send a file operation request to the host; resolves with its file-operation-result, or undefined
+// when not connected or the host does not answer
+function sendFileOperationRequest(operation: FileOperation, fields: { path?: string; parentPath?: string; name?: string }): Promise<any | undefined> {
+    if (!ws || ws.readyState !== 1) { return Promise.resolve(undefined); }
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve) => {
+        pendingFileOperations.set(requestId, resolve);
+        setTimeout(() => {
+            if (pendingFileOperations.delete(requestId)) { resolve(undefined); }
+        }, FOLDER_REQUEST_TIMEOUT_MS);
+        ws!.send(JSON.stringify({
+            type: 'file-operation-request',
+            operation,
+            ...fields,
+            requestId,
+            userName: getDisplayUserName('guest'),
+            timestamp: Date.now()
+        }));
+    });
+}
+
+// Guest: report the outcome of a file operation started from the Code with me explorer
+function reportFileOperationResult(result: any) {
+    if (!result) {
+        vscode.window.showErrorMessage(ws && ws.readyState === 1 ? 'Code with me: The host did not answer the file operation.' : 'Code with me: Not connected to host');
+    } else if (!result.ok) {
+        vscode.window.showErrorMessage(`Code with me: ${result.error || 'The host rejected the file operation.'}`);
+    } else if (result.operation === 'create-file' && typeof result.path === 'string' && ws && ws.readyState === 1) {
+        // Open the new file straight away, as the local explorer would
+        pendingFileContentRequests.add(result.path);
+        pendingFileContentAt.set(result.path, Date.now());
+        ws.send(JSON.stringify({ type: 'open-file', filePath: result.path }));
+    }
+}
+
 // Handle permission requests
 async function handlePermissionRequest(msg: any) {
     const action = await vscode.window.showInformationMessage(
@@ -2197,7 +3622,7 @@ async function setupCollaboration(url: string, role: 'Host' | 'Guest') {
         
     } catch (error) {
         console.error(`[CodeWithMe] ${role}: Error setting up collaboration:`, error);
-        vscode.window.showErrorMessage(`[CodeWithMe] ${role}: Failed to setup collaboration`);
+        vscode.window.showErrorMessage(`[CodeWithMe] ${role}: Failed to setup collaboration${error instanceof Error ? `: ${error.message}` : ''}`);
     }
 }
 
@@ -2206,7 +3631,7 @@ async function joinSession() {
 
    const input = await vscode.window.showInputBox({
        prompt: 'Enter the session code or the full URL from the host',
-       placeHolder: 'e.g., ABC-DEF or ws://...'
+       placeHolder: 'e.g., ABC-DEF#<key> or wss://...'
    });
    if (!input) { return; }
    
@@ -2218,7 +3643,7 @@ async function joinSession() {
        sessionUrl = trimmedInput;
    } else {
        // Assume it's a session code and construct the URL
-       sessionUrl = `${DEFAULT_PUBLIC_WS_URL}/${trimmedInput}`;
+       sessionUrl = `${getRelayUrl()}/${trimmedInput}`;
    }
    
    lastSessionUrl = sessionUrl;
@@ -2234,6 +3659,20 @@ async function joinSession() {
    await setupCollaborationSession(sessionUrl, 'Guest');
 }
 
+// Guest: the relay wants a passphrase for this session; ask for it and join again
+async function joinWithPassphrase(url: string, wrongPassphrase: boolean) {
+    const passphrase = await vscode.window.showInputBox({
+        prompt: wrongPassphrase ? 'Wrong passphrase. Enter the session passphrase from the host' : 'This session requires a passphrase. Enter the passphrase from the host',
+        password: true,
+        ignoreFocusOut: true
+    });
+    if (!passphrase) { return; }
+    sessionPassphrase = passphrase;
+    lastSessionUrl = url;
+    vscode.window.showInformationMessage('Connecting to host server...');
+    await setupCollaborationSession(url, 'Guest');
+}
+
 async function shareSessionLink() {
     if (!lastSessionUrl) {
         vscode.window.showErrorMessage('[CodeWithMe] No active session to share');
@@ -2242,12 +3681,12 @@ async function shareSessionLink() {
 
     try {
         // Extract session code from the URL
-        const sessionCode = lastSessionUrl.substring(lastSessionUrl.lastIndexOf('/') + 1);
+        const sessionCode = getInviteCode();
 
         // Copy CODE to clipboard by default (JetBrains-style)
         await vscode.env.clipboard.writeText(sessionCode);
 
-        const invitationMessage = `Session started.\n\nSession Code: ${sessionCode}\n\nShare this code or the full URL with your guest.\n\nSession code has been copied to the clipboard.`;
+        const invitationMessage = `Session started.\n\nSession Code: ${sessionCode}\n\nShare this code or the full URL with your guest. The part after '#' is the session's encryption key; the relay never sees it.\n\nSession code has been copied to the clipboard.`;
 
         vscode.window.showInformationMessage('Session code copied to clipboard.');
 
@@ -2274,15 +3713,12 @@ async function sendWorkspaceInfoToGuest() {
         console.log('[CodeWithMe] Host: WebSocket exists:', !!ws);
         console.log('[CodeWithMe] Host: WebSocket readyState:', ws?.readyState);
 
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0];        
-        if (workspaceRoot && ws && ws.readyState === 1) { // WebSocket.OPEN
+        const roots = getSharedRootEntries();
+        if (roots.length > 0 && ws && ws.readyState === 1) { // WebSocket.OPEN
             console.log('[CodeWithMe] Host: Getting workspace tree for guest...');
-            const tree = await getWorkspaceFiles(workspaceRoot.uri.fsPath);
             
             const workspaceInfo = {
-                name: workspaceRoot.name,
-                path: workspaceRoot.uri.fsPath,
-                tree: tree,
+                ...(await buildWorkspaceInfo(roots)),
                 permissions: hostSessionPermissions
             };
             
@@ -2295,64 +3731,416 @@ async function sendWorkspaceInfoToGuest() {
             ws.send(message);
             console.log('[CodeWithMe] Host: Sent workspace info to guest successfully');
         } else {
-            console.log('[CodeWithMe] Host: Cannot send workspace info - workspace:', !!workspaceRoot, 'ws:', !!ws, 'readyState:', ws?.readyState); // WebSocket.OPEN
+            console.log('[CodeWithMe] Host: Cannot send workspace info - workspace:', roots.length > 0, 'ws:', !!ws, 'readyState:', ws?.readyState); // WebSocket.OPEN
         }
     } catch (error) {
         console.error('[CodeWithMe] Host: Error sending workspace info:', error);
     }
 }
 
-// Function to get workspace files
-async function getWorkspaceFiles(rootPath: string): Promise<any[]> {
-    const entries = await fs.readdir(rootPath, { withFileTypes: true });
-    const result = [];
-    
-    // Sort entries: folders first, then files, both alphabetically
-    const sortedEntries = entries.sort((a, b) => {
-        if (a.isDirectory() && !b.isDirectory()) {return -1;}
-        if (!a.isDirectory() && b.isDirectory()) {return 1;}
-        return a.name.localeCompare(b.name);
-    });
-    
-    for (const entry of sortedEntries) {
-        // Skip hidden files and common build directories
-        if (entry.name.startsWith('.') || 
-            entry.name === 'node_modules' || 
-            entry.name === '__pycache__' ||
-            entry.name === '.git' ||
-            entry.name === 'dist' ||
-            entry.name === 'build' ||
-            entry.name === '.vscode') {continue;}
-            
-        const fullPath = path.join(rootPath, entry.name);
-        
+// Hidden files and common build directories are not shared
+function isSkippedWorkspaceEntry(name: string): boolean {
+    return name.startsWith('.') ||
+        name === 'node_modules' ||
+        name === '__pycache__' ||
+        name === 'dist' ||
+        name === 'build';
+}
+
+// Host: workspace folders shared in this session (all of them unless the host picked a subset)
+function getSharedRoots(): vscode.WorkspaceFolder[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return sharedRootPaths ? folders.filter(f => sharedRootPaths!.includes(f.uri.fsPath)) : [...folders];
+}
+
+// Host: shared roots with the id that namespaces each one in the guest tree (folder name, made unique)
+function getSharedRootEntries(): { id: string; folder: vscode.WorkspaceFolder }[] {
+    const used = new Set<string>();
+    return getSharedRoots().map(folder => {
+        let id = folder.name;
+        for (let n = 2; used.has(id); n++) { id = `${folder.name}-${n}`; }
+        used.add(id);
+        return { id, folder };
+    });
+}
+
+// Host: the shared root a path belongs to
+function getSharedRootFor(fsPath: string): vscode.WorkspaceFolder | undefined {
+    return getSharedRoots().find(root => {
+        const rel = path.relative(root.uri.fsPath, fsPath);
+        return !rel.startsWith('..') && !path.isAbsolute(rel);
+    });
+}
+
+function isSharedRootPath(fsPath: string): boolean {
+    return getSharedRoots().some(root => path.relative(root.uri.fsPath, fsPath) === '');
+}
+
+// Host: resource id of a path under a shared root, "<root id>/<relative POSIX path>" (just the root id for the root).
+// Session messages name files this way, so guests never see host paths.
+function toResourceId(fsPath: string): string | undefined {
+    for (const { id, folder } of getSharedRootEntries()) {
+        const rel = path.relative(folder.uri.fsPath, fsPath);
+        if (!rel) { return id; }
+        if (!rel.startsWith('..') && !path.isAbsolute(rel)) { return `${id}/${rel.split(path.sep).join('/')}`; }
+    }
+    return undefined;
+}
+
+// Host: disk path for a resource id; undefined for unknown roots or relative paths that are not plain segments
+function fromResourceId(resourceId: string): string | undefined {
+    const [rootId, ...segments] = resourceId.split('/');
+    const root = getSharedRootEntries().find(entry => entry.id === rootId);
+    if (!root || segments.some(s => !s || s === '.' || s === '..' || s.includes('\\') || s.includes('\0'))) { return undefined; }
+    return segments.length > 0 ? path.join(root.folder.uri.fsPath, ...segments) : root.folder.uri.fsPath;
+}
+
+// Message fields that name a file or folder, and the fields holding nested payloads, tree nodes or root lists
+const RESOURCE_FIELDS = ['filePath', 'path', 'parentPath', 'oldPath', 'newPath'];
+const RESOURCE_CONTAINERS = ['data', 'node', 'nodes', 'tree', 'children', 'roots', 'files'];
+
+function mapResourceFields(value: any, mapPath: (p: string) => string | undefined): any {
+    if (Array.isArray(value)) { return value.map(item => mapResourceFields(item, mapPath)); }
+    if (!value || typeof value !== 'object') { return value; }
+    const mapped = { ...value };
+    for (const key of RESOURCE_FIELDS) {
+        if (typeof mapped[key] === 'string') { mapped[key] = mapPath(mapped[key]); }
+    }
+    for (const key of RESOURCE_CONTAINERS) {
+        if (mapped[key] && typeof mapped[key] === 'object') { mapped[key] = mapResourceFields(mapped[key], mapPath); }
+    }
+    return mapped;
+}
+
+// Host: every message the host sends passes through here. Host paths become resource ids;
+// paths outside the shared roots are dropped rather than sent.
+function toWireMessage(text: string): string {
+    let msg: any;
+    try { msg = JSON.parse(text); } catch { return text; }
+    // Chunks carry slices of a file-content payload that was already mapped
+    if (!msg || typeof msg !== 'object' || msg.type === 'file-content-chunk') { return text; }
+    return JSON.stringify(mapResourceFields(msg, p => path.isAbsolute(p) ? toResourceId(p) : p));
+}
+
+// Host: resolve the resource ids in a guest message to host paths. Ids that do not resolve become '',
+// which every path check rejects.
+function fromWireMessage(msg: any): any {
+    return mapResourceFields(msg, id => fromResourceId(id) ?? '');
+}
+
+// Host: whether a path falls inside the shared tree (under a shared root and not in a skipped entry)
+function isSharedWorkspacePath(fsPath: string): boolean {
+    const workspaceRoot = getSharedRootFor(fsPath);
+    if (!workspaceRoot) { return false; }
+    const rel = path.relative(workspaceRoot.uri.fsPath, fsPath);
+    if (!rel) { return false; }
+    return !rel.split(path.sep).some(isSkippedWorkspaceEntry) && !isIgnoredPath(fsPath);
+}
+
+// Host: ignore rules per shared root (root path -> rules), from files.exclude, .gitignore and .cwmignore.
+// Loaded before the tree is built or a file is served, and reloaded when one of their sources changes.
+const ignoreRulesByRoot: Map<string, Ignore> = new Map();
+const IGNORE_FILE_NAMES = ['.gitignore', '.cwmignore'];
+
+async function loadIgnoreRules(root: vscode.WorkspaceFolder): Promise<Ignore> {
+    const rules = ignore();
+    const exclude = vscode.workspace.getConfiguration('files', root.uri).get<Record<string, unknown>>('exclude') ?? {};
+    rules.add(Object.keys(exclude).filter(pattern => exclude[pattern] === true));
+    for (const name of IGNORE_FILE_NAMES) {
+        try {
+            rules.add(await fs.readFile(path.join(root.uri.fsPath, name), 'utf8'));
+        } catch {}
+    }
+    ignoreRulesByRoot.set(root.uri.fsPath, rules);
+    return rules;
+}
+
+async function ensureIgnoreRules() {
+    for (const root of getSharedRoots()) {
+        if (!ignoreRulesByRoot.has(root.uri.fsPath)) { await loadIgnoreRules(root); }
+    }
+}
+
+// Host: whether the ignore rules of the path's root exclude it (directories also match rules ending in "/")
+function isIgnoredPath(fsPath: string, isDirectory: boolean = false): boolean {
+    const root = getSharedRootFor(fsPath);
+    const rules = root && ignoreRulesByRoot.get(root.uri.fsPath);
+    if (!root || !rules) { return false; }
+    const rel = path.relative(root.uri.fsPath, fsPath).split(path.sep).join('/');
+    if (!rel) { return false; }
+    return rules.ignores(isDirectory ? `${rel}/` : rel);
+}
+
+// Host: reload a root's rules when its .gitignore or .cwmignore changes and resend the tree.
+// Returns true when the path was an ignore file.
+async function reloadIgnoreRulesFor(uri: vscode.Uri): Promise<boolean> {
+    if (!IGNORE_FILE_NAMES.includes(path.basename(uri.fsPath))) { return false; }
+    const root = getSharedRoots().find(r => path.dirname(uri.fsPath) === r.uri.fsPath);
+    if (!root || currentRole !== 'host') { return false; }
+    await loadIgnoreRules(root);
+    invalidateFolderListing(root.uri.fsPath, true);
+    console.log('[CodeWithMe] Host: Reloaded ignore rules for', root.name);
+    broadcastWorkspaceState();
+    return true;
+}
+
+// Host: paths shown to guests in workspace-info and tree updates (shared roots, folders and files).
+// Guests can only reach files in this set, whatever path they send.
+const advertisedPaths: Set<string> = new Set();
+// Host: folders whose children have been sent to guests (shared roots and folders guests expanded)
+const servedFolderPaths: Set<string> = new Set();
+
+function advertiseNodes(nodes: any[]) {
+    for (const node of nodes) {
+        if (typeof node?.path === 'string') { advertisedPaths.add(node.path); }
+        if (Array.isArray(node?.children)) { advertiseNodes(node.children); }
+    }
+}
+
+function withdrawAdvertisedPath(fsPath: string) {
+    for (const advertised of Array.from(advertisedPaths)) {
+        if (isSameOrChildPath(advertised, fsPath)) { advertisedPaths.delete(advertised); }
+    }
+    for (const served of Array.from(servedFolderPaths)) {
+        if (isSameOrChildPath(served, fsPath)) { servedFolderPaths.delete(served); }
+    }
+}
+
+// Host: send an incremental tree update, keeping the advertised paths in step with what guests were shown.
+// Additions to folders no guest has listed yet are dropped; those folders are listed fresh when expanded.
+function sendTreeUpdate(message: { type: 'tree-add' | 'tree-remove' | 'tree-rename'; [key: string]: any }) {
+    if (message.type !== 'tree-remove' && !servedFolderPaths.has(message.parentPath)) {
+        if (message.type === 'tree-add') { return; }
+        message = { type: 'tree-remove', path: message.oldPath };
+    }
+    if (message.type === 'tree-remove') { withdrawAdvertisedPath(message.path); }
+    if (message.type === 'tree-rename') { withdrawAdvertisedPath(message.oldPath); }
+    if (message.node) { advertiseNodes([message.node]); }
+    ws?.send(JSON.stringify({ ...message, timestamp: Date.now(), originId: currentUserId }));
+}
+
+// Host: the shared roots, their ignore rules and the advertised tree, as guest path checks see them
+const hostGuestPathScope: GuestPathScope = {
+    rootFor: (fsPath) => getSharedRootFor(fsPath)?.uri.fsPath,
+    isShared: isSharedWorkspacePath,
+    isAdvertised: (fsPath) => advertisedPaths.has(fsPath)
+};
+
+// Host: check a path received from a guest; returns the reason for a denial, or undefined when allowed
+async function checkGuestPathAccess(requested: unknown, options: { advertised: boolean } = { advertised: true }): Promise<string | undefined> {
+    await ensureIgnoreRules();
+    return checkPathAccess(requested, hostGuestPathScope, options);
+}
+
+// Host: log a refused guest request and tell the host about it
+function reportGuestAccessDenied(requested: unknown, reason: string, participantId: string | undefined, action: string) {
+    const who = (participantId && currentSession?.participants.get(participantId)?.name) || 'A guest';
+    const shown = typeof requested === 'string' ? requested : String(requested);
+    console.warn('[CodeWithMe] Host: Denied guest file access', { participantId, action, path: shown, reason });
+    vscode.window.showWarningMessage(`Code with me: Blocked ${who}'s request to ${action} ${shown} (${reason}).`);
+}
+
+// Host: gate for open-file and request-file-content. Denials are reported to the host and the requesting guest.
+async function authorizeGuestFileRequest(filePath: unknown, senderId: string | undefined, action: 'open' | 'read'): Promise<boolean> {
+    const reason = await checkGuestPathAccess(filePath);
+    if (!reason) { return true; }
+    reportGuestAccessDenied(filePath, reason, senderId, action);
+    try {
+        ws?.send(JSON.stringify({ type: 'file-access-denied', path: filePath, targetId: senderId?.replace(/^(guest-|host-)/, ''), reason: 'This file is not shared in the session.', timestamp: Date.now() }));
+    } catch {}
+    return false;
+}
+
+// Host: workspace-info fields for the shared roots. A single root keeps its files at the top of the guest tree;
+// with several, each root is a top-level folder node carrying its root id.
+async function buildWorkspaceInfo(roots: { id: string; folder: vscode.WorkspaceFolder }[]) {
+    await ensureIgnoreRules();
+    // Only the first page of each root is sent; guests load deeper folders as they expand them
+    const rootNodes: any[] = [];
+    for (const { id, folder } of roots) {
+        const { nodes, total } = await getWorkspaceFolderPage(folder.uri.fsPath, 0);
+        rootNodes.push({ type: 'folder', name: folder.name, path: folder.uri.fsPath, rootId: id, children: nodes, childrenTotal: total });
+    }
+    advertisedPaths.clear();
+    servedFolderPaths.clear();
+    advertiseNodes(rootNodes);
+    rootNodes.forEach(node => servedFolderPaths.add(node.path));
+    return {
+        name: roots.length === 1 ? roots[0].folder.name : (vscode.workspace.name || roots[0].folder.name),
+        path: roots[0].folder.uri.fsPath,
+        roots: rootNodes.map(node => ({ id: node.rootId, name: node.name, path: node.path })),
+        tree: rootNodes.length === 1 ? rootNodes[0].children : rootNodes,
+        treeTotal: rootNodes.length === 1 ? rootNodes[0].childrenTotal : undefined
+    };
+}
+
+// Guest: resource ids of the roots in a workspace-info payload
+function getWorkspaceRootPaths(info: any): string[] | undefined {
+    if (Array.isArray(info?.roots)) { return info.roots.map((root: any) => String(root.path)); }
+    return typeof info?.path === 'string' ? [info.path] : undefined;
+}
+
+// Host: build the tree node for a single path, as a folder page would list it (folders without their children)
+async function buildWorkspaceNode(fsPath: string): Promise<any | null> {
+    const stats = await fs.stat(fsPath);
+    const name = path.basename(fsPath);
+    if (stats.isDirectory()) {
+        return { type: 'folder', name, path: fsPath };
+    }
+    return { type: 'file', name, path: fsPath, binary: isBinaryPath(fsPath), size: stats.size, tooLarge: stats.size > getMaxTransferBytes() };
+}
+
+// MIME types for binary assets commonly found in a workspace; other binary files are sent as octet-stream
+const BINARY_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.bmp': 'image/bmp',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.tar': 'application/x-tar',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.eot': 'application/vnd.ms-fontobject',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.wasm': 'application/wasm',
+    '.exe': 'application/octet-stream',
+    '.dll': 'application/octet-stream',
+    '.so': 'application/octet-stream',
+    '.class': 'application/java-vm',
+    '.jar': 'application/java-archive'
+};
+
+// Default hard limit on files sent to guests; hosts can change it with code-with-me.maxFileSizeMB
+const DEFAULT_MAX_FILE_SIZE_MB = 50;
+
+// Bytes of a binary file rendered in the guest hex view
+const HEX_PREVIEW_LIMIT = 64 * 1024;
+
+function isBinaryPath(filePath: string): boolean {
+    return Object.prototype.hasOwnProperty.call(BINARY_MIME_TYPES, path.extname(filePath).toLowerCase());
+}
+
+function getMimeType(filePath: string): string {
+    return BINARY_MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function isImagePath(filePath: string): boolean {
+    return getMimeType(filePath).startsWith('image/');
+}
+
+// Same heuristic as git: a NUL byte near the start means the file is not text
+function isBinaryContent(bytes: Uint8Array): boolean {
+    return bytes.subarray(0, 8000).includes(0);
+}
+
+// Host: the shared entries of a folder, one level deep, sorted folders first and then alphabetically.
+// Listings are cached until the file system watcher reports a change in the folder.
+async function listWorkspaceFolder(folderPath: string): Promise<{ name: string; isDirectory: boolean }[]> {
+    const cached = folderListingCache.get(folderPath);
+    if (cached) { return cached; }
+    const entries = await fs.readdir(folderPath, { withFileTypes: true });
+    const listing = entries
+        // Skip hidden files, common build directories and ignored paths
+        .filter(entry => !isSkippedWorkspaceEntry(entry.name) && !isIgnoredPath(path.join(folderPath, entry.name), entry.isDirectory()))
+        .map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }))
+        .sort((a, b) => {
+            if (a.isDirectory && !b.isDirectory) {return -1;}
+            if (!a.isDirectory && b.isDirectory) {return 1;}
+            return a.name.localeCompare(b.name);
+        });
+    folderListingCache.set(folderPath, listing);
+    return listing;
+}
+
+// Host: one page of a folder's tree nodes. Folders are sent without children; guests fetch them when expanded.
+async function getWorkspaceFolderPage(folderPath: string, offset: number): Promise<{ nodes: any[]; total: number }> {
+    const listing = await listWorkspaceFolder(folderPath);
+    const maxTransferBytes = getMaxTransferBytes();
+    const nodes: any[] = [];
+    for (const entry of listing.slice(offset, offset + TREE_PAGE_SIZE)) {
+        const fullPath = path.join(folderPath, entry.name);
+        if (entry.isDirectory) {
+            nodes.push({ type: 'folder', name: entry.name, path: fullPath });
+            continue;
+        }
         try {
-        if (entry.isDirectory()) {
-                const children = await getWorkspaceFiles(fullPath);
-                // Only include folders that have children or are not empty
-                if (children.length > 0) {
-            result.push({
-                type: 'folder',
-                name: entry.name,
-                        children: children
-            });
-                }
-        } else {
-                // Include all files except very large ones
-                const stats = await fs.stat(fullPath);
-                if (stats.size < 1024 * 1024) { // Skip files larger than 1MB
-            result.push({
+            // Large files are listed with their size; those over the transfer limit are flagged
+            const stats = await fs.stat(fullPath);
+            nodes.push({
                 type: 'file',
                 name: entry.name,
-                path: fullPath
+                path: fullPath,
+                binary: isBinaryPath(fullPath),
+                size: stats.size,
+                tooLarge: stats.size > maxTransferBytes
             });
-                }
-            }
         } catch (error) {
             console.log(`[CodeWithMe] Skipping ${fullPath}: ${error}`);
         }
     }
-    return result;
+    return { nodes, total: listing.length };
+}
+
+// Host: drop cached listings for a folder (and, when it was removed or renamed, everything below it)
+function invalidateFolderListing(folderPath: string, recursive: boolean = false) {
+    folderListingCache.delete(folderPath);
+    if (!recursive) { return; }
+    for (const cachedPath of Array.from(folderListingCache.keys())) {
+        if (isSameOrChildPath(cachedPath, folderPath)) { folderListingCache.delete(cachedPath); }
+    }
+}
+
+// Host: answer a guest's request for one page of a folder's children
+async function handleFolderChildrenRequest(msg: any, senderId: string | undefined) {
+    const targetId = senderId?.replace(/^(guest-|host-)/, '');
+    const reply = (fields: any) => {
+        try { ws?.send(JSON.stringify({ type: 'folder-children', requestId: msg.requestId, targetId, path: msg.path, ...fields, timestamp: Date.now() })); } catch {}
+    };
+    const denial = await checkGuestPathAccess(msg.path);
+    if (denial) {
+        reportGuestAccessDenied(msg.path, denial, senderId, 'list');
+        reply({ error: 'This folder is not shared in the session.' });
+        return;
+    }
+    const offset = Math.max(0, Math.floor(Number(msg.offset) || 0));
+    try {
+        const { nodes, total } = await getWorkspaceFolderPage(msg.path, offset);
+        advertiseNodes(nodes);
+        servedFolderPaths.add(msg.path);
+        reply({ offset, total, nodes });
+    } catch (e) {
+        console.error('[CodeWithMe] Host: Failed to list folder for guest', msg.path, e);
+        reply({ error: 'The host could not list this folder.' });
+    }
+}
+
+// Guest: ask the host for one page of a folder's children; resolves undefined if there is no answer in time
+function requestFolderChildren(folderPath: string, offset: number): Promise<any | undefined> {
+    if (!ws || ws.readyState !== 1) { return Promise.resolve(undefined); }
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            pendingFolderRequests.delete(requestId);
+            console.warn('[CodeWithMe] Guest: Timed out listing host folder', folderPath);
+            resolve(undefined);
+        }, FOLDER_REQUEST_TIMEOUT_MS);
+        pendingFolderRequests.set(requestId, (reply) => {
+            clearTimeout(timer);
+            pendingFolderRequests.delete(requestId);
+            resolve(reply);
+        });
+        ws!.send(JSON.stringify({ type: 'request-folder-children', path: folderPath, offset, requestId, timestamp: Date.now() }));
+    });
 }
 
 // Function to send file content to guest
@@ -2379,23 +4167,193 @@ async function sendFileContentToGuest(document: vscode.TextDocument) {
     }
 }
 
+// Host: bind a shared document to the host buffer for a file, seeded from its current (possibly unsaved) text
+async function getOrCreateHostSharedDoc(filePath: string): Promise<Y.Doc | undefined> {
+    const existing = sharedDocs.get(filePath);
+    if (existing) { return existing; }
+    const doc = await resolveSharedTextDocument(filePath, 'Host');
+    if (!doc) { return undefined; }
+    return sharedDocs.get(filePath) ?? createSharedDoc(filePath, { content: doc.getText() });
+}
+
+// Host: hard limit on the size of a file sent to guests (code-with-me.maxFileSizeMB)
+function getMaxTransferBytes(): number {
+    const limitMb = vscode.workspace.getConfiguration('code-with-me').get<number>('maxFileSizeMB') ?? DEFAULT_MAX_FILE_SIZE_MB;
+    return Math.max(1, limitMb) * 1024 * 1024;
+}
+
+function formatFileSize(bytes: number): string {
+    if (typeof bytes !== 'number' || !isFinite(bytes)) { return 'unknown size'; }
+    if (bytes < 1024) { return `${bytes} B`; }
+    if (bytes < 1024 * 1024) { return `${(bytes / 1024).toFixed(1)} KB`; }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Host: send a file-content payload, splitting large ones into sequenced chunks.
+// Chunks go out as the socket drains, so other session messages interleave with a big transfer.
+async function sendFileContentMessage(data: any) {
+    if (!ws || ws.readyState !== 1) { return; }
+    // Chunks are sent as they are, so the payload names its file by resource id before it is split
+    const payload = toWireMessage(JSON.stringify(data));
+    if (payload.length <= FILE_CHUNK_SIZE) {
+        ws.send(JSON.stringify({ type: 'file-content', data }));
+        return;
+    }
+    const transferId = crypto.randomUUID();
+    const totalChunks = Math.ceil(payload.length / FILE_CHUNK_SIZE);
+    ws.send(JSON.stringify({
+        type: 'file-content-start',
+        transferId,
+        path: data.path,
+        size: typeof data.size === 'number' ? data.size : Buffer.byteLength(String(data.content ?? '')),
+        totalChunks,
+        resync: data.resync
+    }));
+    for (let index = 0; index < totalChunks; index++) {
+        while (ws && ws.readyState === 1 && ws.bufferedAmount > FILE_CHUNK_SIZE) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        if (!ws || ws.readyState !== 1) {
+            console.warn('[CodeWithMe] Host: Connection closed during chunked transfer of', data.path);
+            return;
+        }
+        ws.send(JSON.stringify({
+            type: 'file-content-chunk',
+            transferId,
+            index,
+            data: payload.slice(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE)
+        }));
+        // Yield so messages queued by other handlers are not held behind the whole file
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    ws.send(JSON.stringify({ type: 'file-content-end', transferId }));
+    console.log('[CodeWithMe] Host: Sent chunked file content', data.path, totalChunks, 'chunks');
+}
+
+// Guest: reassemble a chunked file-content transfer, with a progress notification for requested files
+async function handleFileContentTransfer(msg: any) {
+    const transferId: string = msg.transferId;
+    if (msg.type === 'file-content-start') {
+        const filePath = String(msg.path ?? '');
+        const opens = pendingFileContentRequests.has(filePath) || (!!msg.resync && pendingResyncs.has(filePath));
+        // Reads by the cwm: file system want the content too, but open no editor
+        const wanted = opens || pendingFileReads.has(filePath);
+        const transfer: IncomingFileTransfer = { path: filePath, totalChunks: msg.totalChunks, chunks: [], received: 0, wanted, timer: undefined as any };
+        incomingFileTransfers.set(transferId, transfer);
+        armTransferTimeout(transferId, transfer);
+        if (!opens) { return; }
+        if (!sharedDocs.has(filePath)) { incomingTransferChanges.set(filePath, []); }
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Receiving ${path.basename(filePath)} (${formatFileSize(msg.size)})`
+        }, (progress) => new Promise<void>((resolve) => {
+            transfer.progress = progress;
+            transfer.done = resolve;
+        }));
+        return;
+    }
+
+    const transfer = incomingFileTransfers.get(transferId);
+    if (!transfer) { return; }
+    if (msg.type === 'file-content-chunk') {
+        armTransferTimeout(transferId, transfer);
+        if (!transfer.wanted) { return; }
+        if (typeof msg.index === 'number' && transfer.chunks[msg.index] === undefined) {
+            transfer.chunks[msg.index] = String(msg.data ?? '');
+            transfer.received++;
+            transfer.progress?.report({ increment: 100 / transfer.totalChunks });
+        }
+        return;
+    }
+
+    // file-content-end
+    finishFileTransfer(transferId);
+    if (!transfer.wanted) { return; }
+    const deferred = incomingTransferChanges.get(transfer.path) ?? [];
+    try {
+        if (transfer.received !== transfer.totalChunks) {
+            console.error('[CodeWithMe] Guest: Chunked transfer incomplete', transfer.path, transfer.received, '/', transfer.totalChunks);
+            vscode.window.showErrorMessage(`Code with me: Transfer of ${path.basename(transfer.path)} was incomplete.`);
+            settleFileReads(transfer.path, undefined);
+            return;
+        }
+        // Requests go stale after a few seconds; a large transfer counts from its completion
+        if (pendingFileContentRequests.has(transfer.path)) { pendingFileContentAt.set(transfer.path, Date.now()); }
+        await handleGuestFileContent(JSON.parse(transfer.chunks.join('')));
+    } finally {
+        incomingTransferChanges.delete(transfer.path);
+    }
+    // Replay edits the host made while the file was in flight; those already in the snapshot are skipped by revision
+    for (const change of deferred) {
+        await handleFileChange(change, 'Guest');
+    }
+}
+
+function armTransferTimeout(transferId: string, transfer: IncomingFileTransfer) {
+    if (transfer.timer) { clearTimeout(transfer.timer); }
+    transfer.timer = setTimeout(() => {
+        console.warn('[CodeWithMe] Guest: Chunked transfer stalled, dropping', transfer.path);
+        finishFileTransfer(transferId);
+        incomingTransferChanges.delete(transfer.path);
+        if (transfer.wanted) {
+            pendingFileContentRequests.delete(transfer.path);
+            settleFileReads(transfer.path, undefined);
+            vscode.window.showErrorMessage(`Code with me: Transfer of ${path.basename(transfer.path)} stalled.`);
+        }
+    }, FILE_TRANSFER_TIMEOUT_MS);
+}
+
+function finishFileTransfer(transferId: string) {
+    const transfer = incomingFileTransfers.get(transferId);
+    if (!transfer) { return; }
+    incomingFileTransfers.delete(transferId);
+    if (transfer.timer) { clearTimeout(transfer.timer); }
+    transfer.done?.();
+}
+
 // Function to send file content to guest by file path
-async function sendFileContentToGuestByPath(filePath: string) {
+async function sendFileContentToGuestByPath(filePath: string, resync: boolean = false) {
     try {
         if (ws && ws.readyState === 1) {
-            // Read file content directly from file system
-            const content = await fs.readFile(filePath, 'utf8');
+            // Refuse files over the host's transfer limit instead of stalling the session on them
+            const limit = getMaxTransferBytes();
+            const { size } = await fs.stat(filePath);
+            if (size > limit) {
+                ws.send(JSON.stringify({ type: 'file-too-large', path: filePath, size, limit, timestamp: Date.now() }));
+                console.warn('[CodeWithMe] Host: Refusing to send file over the transfer limit', filePath, size, limit);
+                return;
+            }
+            // Binary files are not shared documents: send the raw bytes for a read-only preview
+            if (!vscode.workspace.textDocuments.some(d => d.uri.fsPath === filePath)) {
+                const bytes = await fs.readFile(filePath);
+                if (isBinaryPath(filePath) || isBinaryContent(bytes)) {
+                    await sendFileContentMessage({
+                        path: filePath,
+                        binary: true,
+                        encoding: 'base64',
+                        mimeType: getMimeType(filePath),
+                        size: bytes.length,
+                        content: bytes.toString('base64')
+                    });
+                    console.log('[CodeWithMe] Host: Sent binary file to guest by path:', filePath, bytes.length, 'bytes');
+                    return;
+                }
+            }
+            // Serve from the shared document so every guest joins the same edit history;
+            // fall back to the file system for files VS Code cannot open as text
+            const ydoc = await getOrCreateHostSharedDoc(filePath);
+            const content = ydoc ? ydoc.getText(SHARED_TEXT_NAME).toString() : await fs.readFile(filePath, 'utf8');
             const fileInfo = {
                 path: filePath,
                 content: content,
+                state: ydoc ? encodeSharedUpdate(Y.encodeStateAsUpdate(ydoc)) : undefined,
+                revision: ydoc ? (sharedRevisions.get(filePath) || 0) : undefined,
+                resync: resync || undefined,
                 language: getLanguageFromPath(filePath),
                 lineCount: content.split('\n').length
             };
             
-            ws.send(JSON.stringify({
-                type: 'file-content',
-                data: fileInfo
-            }));
+            await sendFileContentMessage(fileInfo);
             
             console.log('[CodeWithMe] Host: Sent file content to guest by path:', filePath);
         }
@@ -2415,7 +4373,6 @@ async function openFileInGuestEditor(filePath: string) {
             ws.send(JSON.stringify({
                 type: 'request-file-content',
                 filePath: filePath,
-                participantId: currentUserId,
                 userName: getDisplayUserName('guest')
             }));
             // Don't show the "requesting" message - just open the file
@@ -2429,77 +4386,324 @@ async function openFileInGuestEditor(filePath: string) {
     }
 }
 
+// Guest: open a file-content payload from the host (a single message or a reassembled chunked transfer)
+async function handleGuestFileContent(data: any) {
+    // Support both shapes: { data: { path, content } } and { filePath, content }
+    const pRaw = (data?.path !== undefined) ? data.path : data?.filePath;
+    const content = data?.content;
+    const state = typeof data?.state === 'string' ? decodeSharedUpdate(data.state) : undefined;
+    // Reads by the cwm: file system take the content as it is; they do not open an editor
+    if (pRaw && typeof content === 'string') {
+        const bytes = data.binary && data.encoding === 'base64' ? Buffer.from(content, 'base64') : Buffer.from(content, 'utf8');
+        if (settleFileReads(String(pRaw), bytes) && !pendingFileContentRequests.has(String(pRaw)) && !pendingResyncs.has(String(pRaw))) {
+            return;
+        }
+    }
+    if (pRaw && typeof content === 'string' && data.binary && data.encoding === 'base64') {
+        const p = String(pRaw);
+        if (pendingFileContentRequests.delete(p)) {
+            pendingFileContentAt.delete(p);
+            openBinaryPreviewInGuest(p, Buffer.from(content, 'base64'), String(data.mimeType || 'application/octet-stream'));
+        } else {
+            console.log('[CodeWithMe] Guest: Ignoring unsolicited binary file-content for', p);
+        }
+    } else if (pRaw && typeof content === 'string') {
+        const p = String(pRaw);
+        if (data.resync && pendingResyncs.has(p)) {
+            await applyFileResync(p, content, state, typeof data.revision === 'number' ? data.revision : undefined);
+        } else if (pendingFileContentRequests.has(p)) {
+            // Optional freshness guard (ignore very late arrivals > 5s)
+            const ts = pendingFileContentAt.get(p) || 0;
+            const fresh = Date.now() - ts < 5000;
+            pendingFileContentRequests.delete(p);
+            pendingFileContentAt.delete(p);
+            if (fresh) {
+                console.log('[CodeWithMe] Guest: Opening file from file-content (requested):', p);
+                await openFileContentInGuestEditor(p, content, state);
+                if (state && typeof data.revision === 'number') { sharedRevisions.set(p, data.revision); }
+            } else {
+                console.log('[CodeWithMe] Guest: Ignoring stale file-content for', p);
+            }
+        } else {
+            console.log('[CodeWithMe] Guest: Ignoring unsolicited file-content for', p);
+        }
+    } else {
+        console.warn('[CodeWithMe] Guest: file-content missing path/filePath or content');
+    }
+}
+
+// Guest: show a binary file from the host in a read-only webview, as an image or a hex dump
+function openBinaryPreviewInGuest(filePath: string, bytes: Buffer, mimeType: string) {
+    const title = path.basename(filePath);
+    let panel = guestBinaryPreviews.get(filePath);
+    if (panel) {
+        panel.reveal();
+    } else {
+        panel = vscode.window.createWebviewPanel('codeWithMeBinaryPreview', title, vscode.ViewColumn.Active, { enableScripts: false });
+        guestBinaryPreviews.set(filePath, panel);
+        panel.onDidDispose(() => {
+            if (guestBinaryPreviews.get(filePath) === panel) { guestBinaryPreviews.delete(filePath); }
+        });
+    }
+    const escape = (text: string) => text.replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[ch] as string));
+    let body: string;
+    if (mimeType.startsWith('image/')) {
+        body = `<img src="data:${escape(mimeType)};base64,${bytes.toString('base64')}" alt="${escape(title)}">`;
+    } else {
+        const lines: string[] = [];
+        const shown = bytes.subarray(0, HEX_PREVIEW_LIMIT);
+        for (let offset = 0; offset < shown.length; offset += 16) {
+            const row = shown.subarray(offset, offset + 16);
+            const hex = Array.from(row, b => b.toString(16).padStart(2, '0')).join(' ').padEnd(47, ' ');
+            const ascii = Array.from(row, b => (b >= 0x20 && b < 0x7f) ? String.fromCharCode(b) : '.').join('');
+            lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex}  ${escape(ascii)}`);
+        }
+        if (bytes.length > shown.length) {
+            lines.push(`... ${bytes.length - shown.length} more bytes not shown`);
+        }
+        body = `<pre>${lines.join('\n')}</pre>`;
+    }
+    panel.webview.html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .info { opacity: 0.7; margin-bottom: 8px; }
+    img { max-width: 100%; }
+    pre { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+</style>
+</head>
+<body>
+<div class="info">${escape(title)} &middot; ${escape(mimeType)} &middot; ${bytes.length} bytes &middot; read-only</div>
+${body}
+</body>
+</html>`;
+    console.log('[CodeWithMe] Guest: Opened binary preview for', filePath, mimeType);
+}
+
 // Function to open file content in guest's VS Code editor
-async function openFileContentInGuestEditor(filePath: string, content: string) {
+async function openFileContentInGuestEditor(filePath: string, content: string, state?: Uint8Array) {
     try {
         console.log('[CodeWithMe] Guest: Opening file content in editor:', filePath);
-        // If this file already has a mapped untitled document, reuse it and replace content fully
-        let existing = guestUntitledMap.get(filePath);
+        // If this file already has a mapped document, reuse it and replace content fully
+        let existing = guestDocumentMap.get(filePath);
         // Guard against stale/closed documents left in the map after the tab was closed
         if (existing && !vscode.workspace.textDocuments.includes(existing)) {
-            try { guestUntitledMap.delete(filePath); } catch {}
+            try { guestDocumentMap.delete(filePath); } catch {}
             existing = undefined as any;
         }
-        if (existing) {
-            const editor = await vscode.window.showTextDocument(existing, { preview: false });
-            const currentText = existing.getText();
-            if (currentText !== content) {
-                updatingFromRemoteFiles.add(filePath);
-                try {
-                    const lastLine = Math.max(0, existing.lineCount - 1);
-                    const endPos = existing.lineAt(lastLine).range.end;
-                    const ok = await editor.edit((eb) => {
-                        eb.replace(new vscode.Range(new vscode.Position(0, 0), endPos), content);
-                    }, { undoStopBefore: false, undoStopAfter: false });
-                    if (!ok) {
-                        console.warn('[CodeWithMe] Guest: Failed to replace content for already-open doc', filePath);
-                    }
-                } finally {
-                    updatingFromRemoteFiles.delete(filePath);
-                }
-                try { lastProcessedContent.set(filePath, content); } catch {}
-                try { refreshOwnershipDecorations(editor); } catch {}
+        let document = existing;
+        if (!document) {
+            // Bind the buffer to the host's shared document first: the cwm: file system serves its text
+            // when VS Code opens the file, so the document starts clean and matches the host
+            if (state) { createSharedDoc(filePath, { state }); }
+            openingFileContents.set(filePath, content);
+            try {
+                document = await vscode.workspace.openTextDocument(toCwmUri(filePath));
+            } finally {
+                openingFileContents.delete(filePath);
             }
-            return;
+            // Track mapping from resource id to this document
+            guestDocumentMap.set(filePath, document);
         }
-
-        // Otherwise, open as a NAMED untitled document so the tab shows the real filename
-        const title = path.basename(filePath);
-        const uri = vscode.Uri.parse(`untitled:${title}`);
-        const document = await vscode.workspace.openTextDocument(uri);
-        // Set language mode based on the original path
-        try { await vscode.languages.setTextDocumentLanguage(document, getLanguageFromPath(filePath)); } catch {}
-
         const editor = await vscode.window.showTextDocument(document, { preview: false });
-
-        // Replace content programmatically, guarded to avoid echoing as a local change
-        updatingFromRemoteFiles.add(filePath);
-        try {
-            const lastLine = Math.max(0, document.lineCount - 1);
-            const endPos = document.lineAt(lastLine).range.end;
-            const ok = await editor.edit((eb) => {
-                eb.replace(new vscode.Range(new vscode.Position(0, 0), endPos), content);
-            }, { undoStopBefore: false, undoStopAfter: false });
-            if (!ok) {
-                console.warn('[CodeWithMe] Guest: Failed to set initial content for', filePath);
+        // VS Code may hand back a cached model of the file; bring it up to date
+        if (document.getText() !== content) {
+            updatingFromRemoteFiles.add(filePath);
+            try {
+                const lastLine = Math.max(0, document.lineCount - 1);
+                const endPos = document.lineAt(lastLine).range.end;
+                const ok = await editor.edit((eb) => {
+                    eb.replace(new vscode.Range(new vscode.Position(0, 0), endPos), content);
+                }, { undoStopBefore: false, undoStopAfter: false });
+                if (!ok) {
+                    console.warn('[CodeWithMe] Guest: Failed to replace content for already-open doc', filePath);
+                }
+            } finally {
+                updatingFromRemoteFiles.delete(filePath);
             }
-        } finally {
-            updatingFromRemoteFiles.delete(filePath);
         }
-
-        // Track mapping from host path to this untitled document
-        guestUntitledMap.set(filePath, document);
+        // Rebind an already-open document to the host's current shared state; the buffer now matches its text
+        if (existing && state) { createSharedDoc(filePath, { state }); }
         // Initialize last known content for suppression heuristics
         try { lastProcessedContent.set(filePath, content); } catch {}
         // Ensure decorations/UI render immediately for guest
         try { refreshOwnershipDecorations(editor); } catch {}
-        console.log('[CodeWithMe] Guest: File opened as named untitled document with mapping (no local file created)');
+        console.log('[CodeWithMe] Guest: File opened from the cwm: file system', document.uri.toString());
     } catch (error) {
         console.error('[CodeWithMe] Guest: Error opening file content in editor:', error);
         vscode.window.showErrorMessage(`[CodeWithMe] Failed to open file: ${path.basename(filePath)}`);
     }
 }
 
+// Guest: host files are exposed under the cwm: scheme, with the resource id as the URI path (cwm:/<root id>/<path>)
+const CWM_SCHEME = 'cwm';
+
+function toCwmUri(resourceId: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: CWM_SCHEME, path: `/${resourceId}` });
+}
+
+function resourceIdFromCwmUri(uri: vscode.Uri): string {
+    return uri.path.slice(1);
+}
+
+// Guest: current text of a host file this guest has open, if any
+function getGuestFileText(resourceId: string): string | undefined {
+    const shared = sharedDocs.get(resourceId);
+    if (shared) { return shared.getText(SHARED_TEXT_NAME).toString(); }
+    const doc = guestDocumentMap.get(resourceId);
+    if (doc && vscode.workspace.textDocuments.includes(doc)) { return doc.getText(); }
+    return openingFileContents.get(resourceId);
+}
+
+// Guest: fetch a file the guest does not have open; resolves undefined when the host refuses or does not answer
+function fetchHostFile(resourceId: string): Promise<Uint8Array | undefined> {
+    if (!ws || ws.readyState !== 1) { return Promise.resolve(undefined); }
+    return new Promise((resolve) => {
+        const waiting = pendingFileReads.get(resourceId);
+        if (waiting) {
+            waiting.push(resolve);
+            return;
+        }
+        pendingFileReads.set(resourceId, [resolve]);
+        setTimeout(() => settleFileReads(resourceId, undefined), FOLDER_REQUEST_TIMEOUT_MS);
+        ws!.send(JSON.stringify({ type: 'request-file-content', filePath: resourceId, userName: getDisplayUserName('guest') }));
+    });
+}
+
+// Guest: answer pending file system reads for a path; returns true if there were any
+function settleFileReads(resourceId: string, bytes: Uint8Array | undefined): boolean {
+    const waiting = pendingFileReads.get(resourceId);
+    if (!waiting) { return false; }
+    pendingFileReads.delete(resourceId);
+    waiting.forEach(resolve => resolve(bytes));
+    return true;
+}
+
+// Guest: another participant saved a file on the host; mark the open copy saved if it has no edits of its own
+function markGuestDocumentSaved(resourceId: string) {
+    const doc = guestDocumentMap.get(resourceId);
+    const sharedText = sharedDocs.get(resourceId)?.getText(SHARED_TEXT_NAME).toString();
+    if (!doc || !doc.isDirty || doc.getText() !== sharedText) { return; }
+    silentSaves.add(resourceId);
+    doc.save().then((ok) => { if (!ok) { silentSaves.delete(resourceId); } }, () => silentSaves.delete(resourceId));
+}
+
+// Guest: file system for the host's shared files. Reads come from the shared documents (or the host),
+// saves become save requests, and creating, renaming or deleting becomes a file operation request.
+class CodeWithMeFileSystemProvider implements vscode.FileSystemProvider {
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+    // Modification times only move when a save goes through, so VS Code never reports a save conflict
+    private readonly mtimes: Map<string, number> = new Map();
+
+    watch(): vscode.Disposable {
+        // Changes reach open documents as edits through the session protocol
+        return new vscode.Disposable(() => {});
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const resourceId = resourceIdFromCwmUri(uri);
+        const mtime = this.mtimes.get(resourceId) ?? sessionStartMs ?? 0;
+        const text = getGuestFileText(resourceId);
+        if (text !== undefined) {
+            return { type: vscode.FileType.File, ctime: 0, mtime, size: Buffer.byteLength(text) };
+        }
+        const node = codeWithMeTreeProvider?.findNode(resourceId);
+        if (!node) { throw vscode.FileSystemError.FileNotFound(uri); }
+        const type = node.type === 'folder' ? vscode.FileType.Directory : vscode.FileType.File;
+        return { type, ctime: 0, mtime, size: typeof node.size === 'number' ? node.size : 0 };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const folder = await codeWithMeTreeProvider?.getLoadedFolder(resourceIdFromCwmUri(uri));
+        if (!folder) { throw vscode.FileSystemError.FileNotFound(uri); }
+        return (folder.children as any[]).map(n => [n.name, n.type === 'folder' ? vscode.FileType.Directory : vscode.FileType.File]);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const resourceId = resourceIdFromCwmUri(uri);
+        const text = getGuestFileText(resourceId);
+        if (text !== undefined) { return Buffer.from(text, 'utf8'); }
+        const bytes = await fetchHostFile(resourceId);
+        if (!bytes) { throw vscode.FileSystemError.Unavailable(uri); }
+        return bytes;
+    }
+
+    async writeFile(uri: vscode.Uri): Promise<void> {
+        const resourceId = resourceIdFromCwmUri(uri);
+        // Marking a document saved after someone else's save: the host already has this content
+        if (silentSaves.delete(resourceId)) {
+            this.mtimes.set(resourceId, Date.now());
+            return;
+        }
+        if (!guestSessionPermissions?.allowGuestEdit) {
+            throw vscode.FileSystemError.NoPermissions('This session is read-only.');
+        }
+        if (!sharedDocs.has(resourceId)) {
+            throw vscode.FileSystemError.NoPermissions('Create new files from the Code with me explorer.');
+        }
+        // The content is already in the shared document; the host writes its own copy to disk
+        try {
+            await requestSaveOnHost(resourceId);
+        } catch (e) {
+            throw vscode.FileSystemError.NoPermissions(e instanceof Error ? e.message : String(e));
+        }
+        this.mtimes.set(resourceId, Date.now());
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        const parentPath = resourceIdFromCwmUri(uri.with({ path: path.posix.dirname(uri.path) }));
+        this.throwIfFailed(uri, await sendFileOperationRequest('create-folder', { parentPath, name: path.posix.basename(uri.path) }));
+    }
+
+    async delete(uri: vscode.Uri): Promise<void> {
+        this.throwIfFailed(uri, await sendFileOperationRequest('delete', { path: resourceIdFromCwmUri(uri) }));
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri): Promise<void> {
+        if (path.posix.dirname(oldUri.path) !== path.posix.dirname(newUri.path)) {
+            throw vscode.FileSystemError.NoPermissions('Files can only be renamed within their folder.');
+        }
+        const result = await sendFileOperationRequest('rename', { path: resourceIdFromCwmUri(oldUri), name: path.posix.basename(newUri.path) });
+        this.throwIfFailed(result?.code === 'FileExists' ? newUri : oldUri, result);
+    }
+
+    // Host changes (the tree-add/tree-remove/tree-rename messages and saves) reach VS Code through here
+    fireChanges(events: vscode.FileChangeEvent[]) {
+        this._onDidChangeFile.fire(events);
+    }
+
+    private throwIfFailed(uri: vscode.Uri, result: any) {
+        if (!result) { throw vscode.FileSystemError.Unavailable('The host did not answer the file operation.'); }
+        if (result.ok) { return; }
+        switch (result.code) {
+            case 'FileExists': throw vscode.FileSystemError.FileExists(uri);
+            case 'NoPermissions': throw vscode.FileSystemError.NoPermissions(result.error || uri);
+            default: throw vscode.FileSystemError.Unavailable(result.error || uri);
+        }
+    }
+}
+
+// Guest: (re)register the cwm: file system once the session's permissions are known, read-only if guests cannot edit
+let guestFileSystemRegistration: vscode.Disposable | null = null;
+let guestFileSystemReadonly: boolean | null = null;
+let guestFileSystem: CodeWithMeFileSystemProvider | null = null;
+
+function registerGuestFileSystem(readonly: boolean) {
+    if (guestFileSystemRegistration && guestFileSystemReadonly === readonly) { return; }
+    try { guestFileSystemRegistration?.dispose(); } catch {}
+    guestFileSystem = new CodeWithMeFileSystemProvider();
+    guestFileSystemRegistration = vscode.workspace.registerFileSystemProvider(CWM_SCHEME, guestFileSystem, { isCaseSensitive: true, isReadonly: readonly });
+    guestFileSystemReadonly = readonly;
+}
+
+function fireGuestFileChanges(events: vscode.FileChangeEvent[]) {
+    try { guestFileSystem?.fireChanges(events); } catch {}
+}
+
 class SessionManager {
     public ws: WebSocket | null = null;
     public role: 'host' | 'guest' | null = null;
@@ -2663,7 +4867,7 @@ async function updateFileFromGuest(filePath: string, content: string) {
         // Check if this is an Untitled file (new file in guest)
         if (filePath.startsWith('Untitled-')) {
             // Guest is editing an untitled file - find or create the corresponding document
-            let document = guestUntitledMap.get(filePath);
+            let document = guestDocumentMap.get(filePath);
             
             if (!document) {
                 // Create new untitled document for this guest file
@@ -2671,7 +4875,7 @@ async function updateFileFromGuest(filePath: string, content: string) {
                     content: content,
                     language: 'plaintext'
                 });
-                guestUntitledMap.set(filePath, document);
+                guestDocumentMap.set(filePath, document);
                 await vscode.window.showTextDocument(document);
                 console.log('[CodeWithMe] Host: Created new untitled document for guest:', filePath);
                 vscode.window.showInformationMessage(`Guest editing: ${filePath}`);
@@ -2760,6 +4964,86 @@ async function updateFileFromGuest(filePath: string, content: string) {
     }
 }
 
+// Guest: ask the host to save its copy of a shared file, after pushing any edits still batched locally
+// Resolves when the host reports the file saved and rejects with the host's reason otherwise.
+function requestSaveOnHost(filePath: string): Promise<void> {
+    if (!ws || ws.readyState !== 1) {
+        return Promise.reject(new Error('Not connected to host'));
+    }
+    flushPendingFullClear(filePath);
+    sendBatchUpdates();
+    const requestId = crypto.randomUUID();
+    const done = new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pendingSaveRequests.delete(requestId);
+            reject(new Error('The host did not confirm the save.'));
+        }, SAVE_REQUEST_TIMEOUT_MS);
+        pendingSaveRequests.set(requestId, {
+            resolve: () => { clearTimeout(timer); pendingSaveRequests.delete(requestId); resolve(); },
+            reject: (reason: string) => { clearTimeout(timer); pendingSaveRequests.delete(requestId); reject(new Error(reason)); }
+        });
+    });
+    ws.send(JSON.stringify({
+        type: 'save-request',
+        filePath,
+        requestId,
+        userName: getDisplayUserName('guest'),
+        timestamp: Date.now()
+    }));
+    updateSyncStatus('Saving on host...', '$(sync~spin)');
+    return done;
+}
+
+// Host: save the host document for a guest's save request, once earlier edits to the file are applied
+async function handleGuestSaveRequest(msg: any, senderId: string | undefined) {
+    const filePath: string = msg.filePath;
+    const participant = senderId ? currentSession?.participants.get(senderId) : undefined;
+    // Guests compare targetId and savedBy with their own id, which the relay's id carries after its prefix
+    const targetId = senderId?.replace(/^(guest-|host-)/, '');
+    const reject = (reason: string) => {
+        try { ws?.send(JSON.stringify({ type: 'save-rejected', filePath, requestId: msg.requestId, targetId, reason, timestamp: Date.now() })); } catch {}
+    };
+    if (!participant || removedParticipantIds.has(participant.id)) {
+        reject('You are not a participant in this session.');
+        return;
+    }
+    if (!hostSessionPermissions?.allowGuestEdit || !participant.permissions.canEdit) {
+        reject('You have read-only access in this session, so files cannot be saved.');
+        return;
+    }
+    const denial = await checkGuestPathAccess(filePath);
+    if (denial) {
+        reportGuestAccessDenied(filePath, denial, participant.id, 'save');
+        reject('That file is not part of the shared workspace.');
+        return;
+    }
+    await enqueueFileChange(filePath, async () => {
+        try {
+            const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath)
+                ?? await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            if (document.isDirty && !(await document.save())) {
+                reject('The host could not save the file.');
+                return;
+            }
+            ws?.send(JSON.stringify({
+                type: 'file-saved',
+                filePath,
+                requestId: msg.requestId,
+                savedBy: targetId,
+                userName: participant.name,
+                revision: sharedRevisions.get(filePath) ?? 0,
+                checksum: computeContentHash(document.getText()),
+                timestamp: Date.now()
+            }));
+            updateSyncStatus(`Saved for ${participant.name}`, '$(check)');
+            console.log('[CodeWithMe] Host: Saved file for guest', participant.name, filePath);
+        } catch (e) {
+            console.error('[CodeWithMe] Host: Failed to save file for guest', filePath, e);
+            reject('The host could not save the file.');
+        }
+    });
+}
+
 // Function to save current file
 async function saveCurrentFile() {
     try {
@@ -2854,6 +5138,10 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.showWarningMessage('Code with me: Not a file');
                 return;
             }
+            if (n.tooLarge) {
+                vscode.window.showWarningMessage(`Code with me: ${n.name} (${formatFileSize(n.size)}) is larger than the host's transfer limit.`);
+                return;
+            }
             if (!ws || ws.readyState !== 1) {
                 vscode.window.showErrorMessage('Code with me: Not connected to host');
                 return;
@@ -2872,8 +5160,7 @@ export function activate(context: vscode.ExtensionContext) {
     // Register commands
     const copyInviteCmd = vscode.commands.registerCommand('code-with-me.copyInvite', async () => {
         try {
-            const url = lastSessionUrl || '';
-            const code = url ? url.substring(url.lastIndexOf('/') + 1) : '';
+            const code = getInviteCode();
             if (!code) {
                 vscode.window.showWarningMessage('No active session code to copy.');
                 return;
@@ -2920,11 +5207,54 @@ export function activate(context: vscode.ExtensionContext) {
             allowGuestFileCreate: allowGuestEdit,
             allowGuestFileDelete: allowGuestEdit,
         };
+
+        // Multi-root workspaces: let the host choose which folders guests can see
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        sharedRootPaths = null;
+        if (folders.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                folders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, picked: true, folder })),
+                { placeHolder: 'Select the workspace folders to share', canPickMany: true }
+            );
+            if (!picked || picked.length === 0) { return; } // User cancelled
+            sharedRootPaths = picked.map(item => item.folder.uri.fsPath);
+        }
+        const cwmConfig = vscode.workspace.getConfiguration('code-with-me');
+        let passphrase: string | undefined;
+        if (cwmConfig.get<boolean>('requirePassphrase')) {
+            passphrase = await vscode.window.showInputBox({
+                prompt: 'Passphrase guests must enter to join this session',
+                password: true,
+                validateInput: value => value.trim() ? undefined : 'Enter a passphrase, or turn off code-with-me.requirePassphrase.'
+            });
+            if (!passphrase) { return; } // User cancelled
+        }
         vscode.window.showInformationMessage(`[CodeWithMe] Starting collaborative session as ${identity.userName}...`);
 
-        // Generate a short, memorable session code
-        const sessionId = generateSessionCode();
-        lastSessionUrl = `${DEFAULT_PUBLIC_WS_URL}/${sessionId}`;
+        let relayUrl = getRelayUrl();
+        if (cwmConfig.get<boolean>('embeddedRelay')) {
+            const port = cwmConfig.get<number>('embeddedRelayPort', 3000);
+            try {
+                relayUrl = await startEmbeddedRelay(port);
+            } catch (e) {
+                vscode.window.showErrorMessage(`[CodeWithMe] Could not start the embedded relay on port ${port}: ${e instanceof Error ? e.message : String(e)}`);
+                return;
+            }
+        }
+        // The relay hands out the session code, so it is unique and held for this host
+        let sessionId: string;
+        try {
+            const reservation = await reserveSessionCode(relayUrl, passphrase);
+            sessionId = reservation.sessionId;
+            hostReconnectToken = reservation.hostToken;
+        } catch (e) {
+            stopEmbeddedRelay();
+            vscode.window.showErrorMessage(`[CodeWithMe] Could not start the session: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        // The session key follows '#' so it is shared with guests but never sent to the relay
+        const sessionKey = crypto.randomBytes(SESSION_KEY_BYTES).toString('base64url');
+        lastSessionUrl = `${relayUrl}/${sessionId}#${sessionKey}`;
 
         await setupCollaborationSession(lastSessionUrl, 'Host');
         // Set shared session start time
@@ -2969,19 +5299,31 @@ export function activate(context: vscode.ExtensionContext) {
             setTimeout(() => vscode.commands.executeCommand('code-with-me.openFromWorkspace'), 800);
             return;
         }
+        // Folders are loaded as the explorer expands them, so only files in loaded folders can be listed
         const files: string[] = [];
+        let partial = typeof info.treeTotal === 'number' && info.treeTotal > info.tree.length;
         const walk = (nodes: any[]) => {
             for (const n of nodes) {
                 if (n.type === 'file' && n.path) {files.push(n.path);}
-                if (n.type === 'folder' && Array.isArray(n.children)) {walk(n.children);}
+                if (n.type !== 'folder') {continue;}
+                if (!Array.isArray(n.children) || (typeof n.childrenTotal === 'number' && n.childrenTotal > n.children.length)) {partial = true;}
+                if (Array.isArray(n.children)) {walk(n.children);}
             }
         };
         walk(info.tree);
-        if (files.length === 0) {
+        if (files.length === 0 && !partial) {
             vscode.window.showWarningMessage('Workspace has no shareable files.');
             return;
         }
-        const pick = await vscode.window.showQuickPick(files, { placeHolder: 'Select a host file to open' });
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('Code with me: No host files are loaded yet. Expand folders in the Code with me explorer to list their files.');
+            return;
+        }
+        const pick = await vscode.window.showQuickPick(files, {
+            placeHolder: partial
+                ? 'Select a host file to open (only folders loaded in the Code with me explorer are listed)'
+                : 'Select a host file to open'
+        });
         if (pick && ws && ws.readyState === 1) {
             // Change to auto-open flow: guest asks host to open and host immediately responds with file-content
             pendingFileContentRequests.add(pick);
@@ -3066,6 +5408,58 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(syncStatusItem);
     context.subscriptions.push(reRequestInfoCmd);
     context.subscriptions.push(quickOpenCmd);
+
+    // Guest file operations from the Code with me explorer; the host validates and applies them
+    const guestRootPath = () => String((global as any).__cwm_lastWorkspaceInfo?.path ?? '');
+    const folderOf = (node?: WorkspaceItem) => {
+        if (!node) { return guestRootPath(); }
+        return node.item.type === 'folder' ? node.item.path : path.dirname(node.item.path);
+    };
+    const createEntry = async (operation: 'create-file' | 'create-folder', node?: WorkspaceItem) => {
+        const parentPath = folderOf(node);
+        if (!parentPath) {
+            vscode.window.showWarningMessage('Code with me: Host workspace is not available yet.');
+            return;
+        }
+        const name = await vscode.window.showInputBox({
+            prompt: operation === 'create-file' ? 'New file name' : 'New folder name',
+            validateInput: validateNewEntryName
+        });
+        if (name) {
+            reportFileOperationResult(await sendFileOperationRequest(operation, { parentPath, name: name.trim() }));
+        }
+    };
+    const newFileCmd = vscode.commands.registerCommand('code-with-me.newFile', (node?: WorkspaceItem) => createEntry('create-file', node));
+    const newFolderCmd = vscode.commands.registerCommand('code-with-me.newFolder', (node?: WorkspaceItem) => createEntry('create-folder', node));
+    const renameEntryCmd = vscode.commands.registerCommand('code-with-me.renameEntry', async (node?: WorkspaceItem) => {
+        if (!node?.item?.path) { return; }
+        const name = await vscode.window.showInputBox({
+            prompt: `Rename ${node.item.name}`,
+            value: node.item.name,
+            validateInput: validateNewEntryName
+        });
+        if (name && name.trim() !== node.item.name) {
+            reportFileOperationResult(await sendFileOperationRequest('rename', { path: node.item.path, name: name.trim() }));
+        }
+    });
+    const deleteEntryCmd = vscode.commands.registerCommand('code-with-me.deleteEntry', async (node?: WorkspaceItem) => {
+        if (!node?.item?.path) { return; }
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete ${node.item.name} on the host?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm === 'Delete') {
+            reportFileOperationResult(await sendFileOperationRequest('delete', { path: node.item.path }));
+        }
+    });
+    context.subscriptions.push(newFileCmd, newFolderCmd, renameEntryCmd, deleteEntryCmd);
+
+    const loadMoreChildrenCmd = vscode.commands.registerCommand('code-with-me.loadMoreChildren', async (folderPath: string) => {
+        if (typeof folderPath === 'string') { await codeWithMeTreeProvider?.loadMore(folderPath); }
+    });
+    context.subscriptions.push(loadMoreChildrenCmd);
+
     
     // NEW: Add listener to update cursors when switching editor tabs
     context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => {
@@ -3101,10 +5495,10 @@ function cleanupSessionState() {
         }
         catch {}
         try {
-            lastProcessedSequence = 0;
+            pendingFullClears.forEach(p => { try { clearTimeout(p.timer); } catch {} });
+            pendingFullClears.clear();
         }
         catch {}
-        try { fileSeqCounter.clear(); } catch {}
         // Dispose session-scoped disposables (watchers, listeners)
         try {
             for (const d of sessionDisposables) {
@@ -3117,6 +5511,29 @@ function cleanupSessionState() {
             participantCursors.clear();
         }
         catch {}
+        try {
+            ignoreRulesByRoot.clear();
+            advertisedPaths.clear();
+            servedFolderPaths.clear();
+            folderListingCache.clear();
+            pendingFolderRequests.forEach(resolve => { try { resolve(undefined); } catch {} });
+            pendingFolderRequests.clear();
+            pendingFileOperations.forEach(resolve => { try { resolve(undefined); } catch {} });
+            pendingFileOperations.clear();
+            Array.from(pendingFileReads.keys()).forEach(p => settleFileReads(p, undefined));
+            pendingSaveRequests.forEach(pending => { try { pending.reject('The session ended.'); } catch {} });
+            pendingSaveRequests.clear();
+            openingFileContents.clear();
+            silentSaves.clear();
+        } catch {}
+        try {
+            guestBinaryPreviews.forEach(panel => { try { panel.dispose(); } catch {} });
+            guestBinaryPreviews.clear();
+        } catch {}
+        try {
+            Array.from(incomingFileTransfers.keys()).forEach(id => finishFileTransfer(id));
+            incomingTransferChanges.clear();
+        } catch {}
         try {
             participantCursorDecorations.forEach(d => { try { d.dispose(); } catch {} });
             participantCursorDecorations.clear();
@@ -3144,11 +5561,12 @@ function cleanupSessionState() {
             lineOwnership.clear();
         } catch {}
         // Clear per-file sync state maps/sets
-        try { guestUntitledMap.clear(); } catch {}
+        try { guestDocumentMap.clear(); } catch {}
         try { lastProcessedContent.clear(); } catch {}
-        try { lastProcessedSeqByFileAndSender.clear(); } catch {}
+        try { Array.from(sharedDocs.keys()).forEach(fp => disposeSharedDoc(fp)); } catch {}
+        try { pendingRemoteApplies.clear(); } catch {}
+        try { pendingResyncs.clear(); } catch {}
         try { updatingFromRemoteFiles.clear(); } catch {}
-        try { editConfirmationPromises.clear(); } catch {}
         try { recentMessageIds.splice(0, recentMessageIds.length); } catch {}
         // Clear session participants if present
         try { (currentSession as any)?.participants?.clear?.(); } catch {}
@@ -3167,12 +5585,28 @@ function cleanupSessionState() {
             catch {}
             ws = null;
         }
+        if (reconnectTimer) { try { clearTimeout(reconnectTimer); } catch {} reconnectTimer = null; }
+        reconnectAttempt = 0;
+        stopEmbeddedRelay();
+        lastRelaySeq = 0;
+        if (heartbeatTimer) { try { clearInterval(heartbeatTimer); } catch {} heartbeatTimer = null; }
+        hostRttMs = undefined;
+        hostReconnectToken = undefined;
+        guestResumeSecret = undefined;
+        hostReconnecting = false;
+        sessionCipher = null;
+        sessionPassphrase = undefined;
+        passphraseRejected = null;
+        lobbyGuests.clear();
+        bannedGitHubLogins.clear();
+        awaitingAdmission = false;
         // Reset session state
         currentSession = null;
         currentRole = null;
         // Reset guards so a new session can register listeners/watchers
         sessionListenersActive = false;
         fileWatchersActive = false;
+        try { updateGuestContextKeys(); } catch {}
         // Update status bar
         try {
             updateSyncStatus('Session stopped', '$(circle-slash)');
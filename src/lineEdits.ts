@@ -0,0 +1,54 @@
+// Upper bound for the line diff table; larger changes are sent as a single replacement
+const MAX_LINE_DIFF_CELLS = 1000000;
+
+// Line-based diff from `oldText` to `newText`, as non-overlapping replacements in `oldText` offsets (ascending)
+export function computeLineEdits(oldText: string, newText: string): { offset: number; length: number; text: string }[] {
+    if (oldText === newText) { return []; }
+    // Split after each newline so every line keeps its own line ending
+    const oldLines = oldText.split(/(?<=\n)/);
+    const newLines = newText.split(/(?<=\n)/);
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) { prefix++; }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) { suffix++; }
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    let pos = oldLines.slice(0, prefix).reduce((n, line) => n + line.length, 0);
+    if (a.length * b.length > MAX_LINE_DIFF_CELLS) {
+        return [{ offset: pos, length: a.join('').length, text: b.join('') }];
+    }
+
+    // Longest common subsequence of the differing middle lines
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= a.length; i++) { lcs.push(new Uint32Array(b.length + 1)); }
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const edits: { offset: number; length: number; text: string }[] = [];
+    let hunk: { offset: number; length: number; text: string } | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            if (hunk) { edits.push(hunk); hunk = null; }
+            pos += a[i].length;
+            i++;
+            j++;
+        } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            hunk = hunk ?? { offset: pos, length: 0, text: '' };
+            hunk.text += b[j];
+            j++;
+        } else {
+            hunk = hunk ?? { offset: pos, length: 0, text: '' };
+            hunk.length += a[i].length;
+            pos += a[i].length;
+            i++;
+        }
+    }
+    if (hunk) { edits.push(hunk); }
+    return edits;
+}
@@ -0,0 +1,58 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Host paths keep the host's separators on both sides; resource ids always use '/'
+export function isSameOrChildPath(candidate: string, parent: string): boolean {
+    if (candidate === parent) { return true; }
+    const separator = parent.includes('\\') ? '\\' : '/';
+    return candidate.startsWith(parent.endsWith(separator) ? parent : parent + separator);
+}
+
+// Real path of a file, or of its nearest existing ancestor joined with the rest (for paths about to be created)
+export async function resolveRealPath(fsPath: string): Promise<string> {
+    try {
+        return await fs.realpath(fsPath);
+    } catch {
+        const parent = path.dirname(fsPath);
+        if (parent === fsPath) { return fsPath; }
+        return path.join(await resolveRealPath(parent), path.basename(fsPath));
+    }
+}
+
+// What the host shares with guests
+export interface GuestPathScope {
+    // Shared root containing a path, if any
+    rootFor(fsPath: string): string | undefined;
+    // Whether a path below a root is in the shared tree, i.e. not excluded from sharing
+    isShared(fsPath: string): boolean;
+    // Whether a path was sent to guests in the file tree
+    isAdvertised(fsPath: string): boolean;
+}
+
+// Check a path received from a guest. The path must be absolute and canonical, inside a shared root,
+// not excluded from sharing, not reached through a symbolic link leading out of the roots and, unless it is
+// about to be created, in the advertised tree. Returns the reason for a denial, or undefined when allowed.
+export async function checkPathAccess(requested: unknown, scope: GuestPathScope, options: { advertised: boolean } = { advertised: true }): Promise<string | undefined> {
+    if (typeof requested !== 'string' || !requested || requested.includes('\0') || !path.isAbsolute(requested)) {
+        return 'invalid path';
+    }
+    if (path.resolve(requested) !== requested) {
+        return 'path is not in canonical form';
+    }
+    const root = scope.rootFor(requested);
+    if (!root) {
+        return 'outside the shared workspace folders';
+    }
+    const isRoot = path.relative(root, requested) === '';
+    if (!isRoot && !scope.isShared(requested)) {
+        return 'excluded from sharing';
+    }
+    const [realRoot, realTarget] = await Promise.all([resolveRealPath(root), resolveRealPath(requested)]);
+    if (!isSameOrChildPath(realTarget, realRoot)) {
+        return 'symbolic link leads outside the shared workspace folder';
+    }
+    if (options.advertised && !isRoot && !scope.isAdvertised(requested)) {
+        return 'not in the shared file tree';
+    }
+    return undefined;
+}
@@ -0,0 +1,59 @@
+import * as crypto from 'crypto';
+
+// End-to-end encryption: message bodies are sealed with AES-256-GCM under the session key, with the
+// session code as associated data. The relay only sees `sealed` plus the few fields it routes on.
+export const SESSION_KEY_BYTES = 32;
+const SEALED_IV_BYTES = 12;
+const SEALED_TAG_BYTES = 16;
+// Sent in the clear: the relay reads these to admit the connection
+const RELAY_PLAINTEXT_TYPES = new Set(['role-identification']);
+// Fields kept outside the sealed body because the relay routes or throttles on them
+const RELAY_ENVELOPE_FIELDS: { [type: string]: string[] } = {
+    'kick-guest': ['type', 'participantId', 'ban'],
+    'admit-guest': ['type', 'participantId'],
+    // Lets the relay pass a lobby guest's introduction to the host
+    'hello-guest': ['type'],
+    'heartbeat': ['type'],
+    'heartbeat-ack': ['type']
+};
+
+// Key for a session's end-to-end encryption, bound to its session code
+export interface SessionCipher {
+    key: Buffer;
+    sessionId: string;
+}
+
+// Seal an outgoing message under the session key, copying out the envelope fields the relay needs.
+// Without a key, and for the relay's plaintext types, the text is sent as it is.
+export function sealMessage(text: string, sessionCipher: SessionCipher | null): string {
+    if (!sessionCipher) { return text; }
+    let msg: any;
+    try { msg = JSON.parse(text); } catch { return text; }
+    if (!msg || typeof msg !== 'object' || RELAY_PLAINTEXT_TYPES.has(msg.type)) { return text; }
+    const iv = crypto.randomBytes(SEALED_IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', sessionCipher.key, iv);
+    cipher.setAAD(Buffer.from(sessionCipher.sessionId));
+    const body = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    const envelope: any = { sealed: Buffer.concat([iv, cipher.getAuthTag(), body]).toString('base64') };
+    for (const field of RELAY_ENVELOPE_FIELDS[msg.type] ?? []) {
+        envelope[field] = msg[field];
+    }
+    return JSON.stringify(envelope);
+}
+
+// Returns the decrypted message, or null when it was not sealed with this session's key
+export function openSealedMessage(sealed: string, sessionCipher: SessionCipher | null): any | null {
+    if (!sessionCipher) { return null; }
+    try {
+        const raw = Buffer.from(sealed, 'base64');
+        const iv = raw.subarray(0, SEALED_IV_BYTES);
+        const tag = raw.subarray(SEALED_IV_BYTES, SEALED_IV_BYTES + SEALED_TAG_BYTES);
+        const decipher = crypto.createDecipheriv('aes-256-gcm', sessionCipher.key, iv);
+        decipher.setAAD(Buffer.from(sessionCipher.sessionId));
+        decipher.setAuthTag(tag);
+        const text = Buffer.concat([decipher.update(raw.subarray(SEALED_IV_BYTES + SEALED_TAG_BYTES)), decipher.final()]).toString('utf8');
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { computeLineEdits } from '../lineEdits';
+
+// Apply the edits from the end so earlier offsets stay valid
+function applyEdits(text: string, edits: { offset: number; length: number; text: string }[]): string {
+	for (const edit of [...edits].reverse()) {
+		text = text.substring(0, edit.offset) + edit.text + text.substring(edit.offset + edit.length);
+	}
+	return text;
+}
+
+suite('Line edits', () => {
+	test('identical texts need no edits', () => {
+		assert.deepStrictEqual(computeLineEdits('a\nb\n', 'a\nb\n'), []);
+	});
+
+	test('a changed line becomes one replacement at its offset', () => {
+		assert.deepStrictEqual(computeLineEdits('a\nb\nc\n', 'a\nB\nc\n'), [{ offset: 2, length: 2, text: 'B\n' }]);
+	});
+
+	test('insertions and deletions keep the untouched lines out of the edits', () => {
+		const oldText = 'one\ntwo\nthree\nfour\nfive\n';
+		const newText = 'zero\none\nthree\nfour\n4.5\nfive\n';
+		const edits = computeLineEdits(oldText, newText);
+		assert.deepStrictEqual(edits, [
+			{ offset: 0, length: 0, text: 'zero\n' },
+			{ offset: 4, length: 4, text: '' },
+			{ offset: 19, length: 0, text: '4.5\n' }
+		]);
+		assert.strictEqual(applyEdits(oldText, edits), newText);
+	});
+
+	test('edits are ascending and do not overlap', () => {
+		const oldText = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+		const newText = oldText.replace('line 3\n', '').replace('line 20', 'line twenty').replace('line 40\n', 'line 40\nextra\n');
+		const edits = computeLineEdits(oldText, newText);
+		for (let i = 1; i < edits.length; i++) {
+			assert.ok(edits[i].offset >= edits[i - 1].offset + edits[i - 1].length);
+		}
+		assert.strictEqual(applyEdits(oldText, edits), newText);
+	});
+
+	test('line endings and a missing final newline are preserved', () => {
+		const oldText = 'a\r\nb\r\nc';
+		const newText = 'a\r\nb\nc\r\nd';
+		assert.strictEqual(applyEdits(oldText, computeLineEdits(oldText, newText)), newText);
+		assert.strictEqual(applyEdits('', computeLineEdits('', 'x\n')), 'x\n');
+		assert.strictEqual(applyEdits('x\n', computeLineEdits('x\n', '')), '');
+	});
+
+	test('changes too large for the diff table become a single replacement', () => {
+		const oldText = Array.from({ length: 1100 }, (_, i) => `old ${i}\n`).join('');
+		const newText = 'head\n' + Array.from({ length: 1100 }, (_, i) => `new ${i}\n`).join('');
+		const edits = computeLineEdits(oldText, newText);
+		assert.deepStrictEqual(edits, [{ offset: 0, length: oldText.length, text: newText }]);
+	});
+});
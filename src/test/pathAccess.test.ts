@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { checkPathAccess, GuestPathScope, isSameOrChildPath } from '../pathAccess';
+
+suite('Guest path access', () => {
+	let base: string;
+	let root: string;
+	let scope: GuestPathScope;
+	const advertised = new Set<string>();
+
+	suiteSetup(async () => {
+		base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'cwm-path-access-')));
+		root = path.join(base, 'root');
+		await fs.mkdir(path.join(root, 'src'), { recursive: true });
+		await fs.mkdir(path.join(base, 'outside'));
+		await fs.writeFile(path.join(root, 'src', 'main.ts'), '');
+		await fs.writeFile(path.join(root, 'secret.env'), '');
+		await fs.writeFile(path.join(base, 'outside', 'passwd'), '');
+		await fs.symlink(path.join(base, 'outside'), path.join(root, 'escape'), 'junction');
+		await fs.symlink(path.join(root, 'src'), path.join(root, 'alias'), 'junction');
+		for (const p of ['src', 'src/main.ts', 'escape', 'escape/passwd', 'alias', 'alias/main.ts']) {
+			advertised.add(path.join(root, p));
+		}
+		scope = {
+			rootFor: (fsPath) => isSameOrChildPath(fsPath, root) ? root : undefined,
+			isShared: (fsPath) => path.basename(fsPath) !== 'secret.env',
+			isAdvertised: (fsPath) => advertised.has(fsPath)
+		};
+	});
+
+	suiteTeardown(async () => {
+		await fs.rm(base, { recursive: true, force: true });
+	});
+
+	test('allows advertised paths and the root itself', async () => {
+		assert.strictEqual(await checkPathAccess(path.join(root, 'src', 'main.ts'), scope), undefined);
+		assert.strictEqual(await checkPathAccess(root, scope), undefined);
+	});
+
+	test('rejects values that are not absolute paths', async () => {
+		for (const requested of [undefined, 42, '', 'src/main.ts', `${root}/src\0/main.ts`]) {
+			assert.strictEqual(await checkPathAccess(requested, scope), 'invalid path');
+		}
+	});
+
+	test('rejects paths with .. segments, even when they stay inside the root', async () => {
+		assert.strictEqual(await checkPathAccess(`${root}/src/../../outside/passwd`, scope), 'path is not in canonical form');
+		assert.strictEqual(await checkPathAccess(`${root}/src/../src/main.ts`, scope), 'path is not in canonical form');
+	});
+
+	test('rejects paths outside the shared roots', async () => {
+		assert.strictEqual(await checkPathAccess(path.join(base, 'outside', 'passwd'), scope), 'outside the shared workspace folders');
+		assert.strictEqual(await checkPathAccess(`${root}-other/file`, scope), 'outside the shared workspace folders');
+	});
+
+	test('rejects paths excluded from sharing', async () => {
+		assert.strictEqual(await checkPathAccess(path.join(root, 'secret.env'), scope), 'excluded from sharing');
+	});
+
+	test('rejects symbolic links that lead out of the root, but not ones that stay inside', async () => {
+		const reason = 'symbolic link leads outside the shared workspace folder';
+		assert.strictEqual(await checkPathAccess(path.join(root, 'escape', 'passwd'), scope), reason);
+		assert.strictEqual(await checkPathAccess(path.join(root, 'escape', 'new-file'), scope, { advertised: false }), reason);
+		assert.strictEqual(await checkPathAccess(path.join(root, 'alias', 'main.ts'), scope), undefined);
+	});
+
+	test('rejects paths that were not advertised unless they are about to be created', async () => {
+		const created = path.join(root, 'src', 'new.ts');
+		assert.strictEqual(await checkPathAccess(created, scope), 'not in the shared file tree');
+		assert.strictEqual(await checkPathAccess(created, scope, { advertised: false }), undefined);
+	});
+});
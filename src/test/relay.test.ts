@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+// The relay is plain JavaScript shared with the standalone server; out/test/ sits two levels below the repository
+const relay = require(path.join(__dirname, '..', '..', 'relay-server', 'relay.js'));
+
+function journalOf(count: number, size: number = 1) {
+	const session = relay.createSession(null);
+	for (let i = 0; i < count; i++) {
+		const seq = ++session.seq;
+		relay.appendToJournal(session, seq, seq % 2 === 0 ? 'Host' : 'Guest', String(seq).padEnd(size, '.'));
+	}
+	return session;
+}
+
+suite('Relay journal', () => {
+	test('replays only the envelopes the role missed, in order', () => {
+		const session = journalOf(6);
+		assert.deepStrictEqual(relay.missedEnvelopes(session, 'Guest', 2), ['3', '5']);
+		assert.deepStrictEqual(relay.missedEnvelopes(session, 'Host', 2), ['4', '6']);
+	});
+
+	test('a client that saw everything gets nothing', () => {
+		const session = journalOf(4);
+		assert.deepStrictEqual(relay.missedEnvelopes(session, 'Guest', 4), []);
+	});
+
+	test('a sequence number from another session needs a snapshot', () => {
+		const session = journalOf(4);
+		assert.strictEqual(relay.missedEnvelopes(session, 'Guest', 5), null);
+	});
+
+	test('keeps at most the entry bound and asks for a snapshot past it', () => {
+		const session = journalOf(relay.JOURNAL_MAX_ENTRIES + 10);
+		assert.strictEqual(session.journal.length, relay.JOURNAL_MAX_ENTRIES);
+		assert.strictEqual(session.journal[0].seq, 11);
+		assert.strictEqual(relay.missedEnvelopes(session, 'Guest', 9), null);
+		// The oldest kept entry follows directly, so replay is still complete
+		assert.ok(Array.isArray(relay.missedEnvelopes(session, 'Guest', 10)));
+	});
+
+	test('keeps at most the byte bound, but always the newest entry', () => {
+		const size = Math.floor(relay.JOURNAL_MAX_BYTES / 4);
+		const session = journalOf(6, size);
+		assert.ok(session.journalBytes <= relay.JOURNAL_MAX_BYTES);
+		assert.strictEqual(session.journal[session.journal.length - 1].seq, 6);
+		assert.strictEqual(session.journalBytes, session.journal.reduce((n: number, e: any) => n + e.strMessage.length, 0));
+
+		const oversized = journalOf(1, relay.JOURNAL_MAX_BYTES + 1);
+		assert.strictEqual(oversized.journal.length, 1);
+	});
+});
+
+suite('Relay lobby and bans', () => {
+	test('a new guest is issued a resume secret and waits in the lobby', () => {
+		const session = relay.createSession(null);
+		const identity = relay.admitGuestIdentity(session, 'guest-a', undefined);
+		assert.strictEqual(identity.code, undefined);
+		assert.strictEqual(identity.admitted, false);
+		assert.strictEqual(typeof identity.resumeSecret, 'string');
+	});
+
+	test('an id in use is only given to the holder of its resume secret', () => {
+		const session = relay.createSession(null);
+		const { resumeSecret } = relay.admitGuestIdentity(session, 'guest-a', undefined);
+		assert.strictEqual(relay.admitGuestIdentity(session, 'guest-a', undefined).code, 'participant-id-taken');
+		assert.strictEqual(relay.admitGuestIdentity(session, 'guest-a', 'guessed').code, 'participant-id-taken');
+		const resumed = relay.admitGuestIdentity(session, 'guest-a', resumeSecret);
+		assert.strictEqual(resumed.code, undefined);
+		assert.strictEqual(resumed.resumeSecret, undefined);
+	});
+
+	test('an admitted guest stays admitted when it reconnects', () => {
+		const session = relay.createSession(null);
+		const { resumeSecret } = relay.admitGuestIdentity(session, 'guest-a', undefined);
+		session.admitted.add('guest-a');
+		assert.strictEqual(relay.admitGuestIdentity(session, 'guest-a', resumeSecret).admitted, true);
+	});
+
+	test('lobby guests may only send hello-guest', () => {
+		const session = relay.createSession(null);
+		assert.strictEqual(relay.acceptsGuestMessage(session, 'guest-a', 'hello-guest'), true);
+		assert.strictEqual(relay.acceptsGuestMessage(session, 'guest-a', undefined), false);
+		assert.strictEqual(relay.acceptsGuestMessage(session, 'guest-a', 'file-change'), false);
+		session.admitted.add('guest-a');
+		assert.strictEqual(relay.acceptsGuestMessage(session, 'guest-a', 'file-change'), true);
+	});
+
+	test('a banned identity cannot join again, even with its resume secret', () => {
+		const session = relay.createSession(null);
+		const { resumeSecret } = relay.admitGuestIdentity(session, 'guest-a', undefined);
+		session.admitted.add('guest-a');
+		session.guests.set('guest-a', { ws: null, userName: 'A' });
+		const removed = relay.revokeGuest(session, 'guest-a', true);
+		assert.strictEqual(removed.userName, 'A');
+		assert.strictEqual(session.guests.has('guest-a'), false);
+		assert.strictEqual(relay.admitGuestIdentity(session, 'guest-a', resumeSecret).code, 'banned');
+		assert.strictEqual(relay.acceptsGuestMessage(session, 'guest-a', 'file-change'), false);
+	});
+
+	test('a removed guest without a ban returns to the lobby', () => {
+		const session = relay.createSession(null);
+		const { resumeSecret } = relay.admitGuestIdentity(session, 'guest-a', undefined);
+		session.admitted.add('guest-a');
+		relay.revokeGuest(session, 'guest-a', false);
+		assert.strictEqual(relay.admitGuestIdentity(session, 'guest-a', resumeSecret).admitted, false);
+	});
+
+	test('a banned guest returning under a new identity starts in the lobby', () => {
+		const session = relay.createSession(null);
+		relay.admitGuestIdentity(session, 'guest-a', undefined);
+		session.admitted.add('guest-a');
+		relay.revokeGuest(session, 'guest-a', true);
+		const fresh = relay.admitGuestIdentity(session, 'guest-b', undefined);
+		assert.strictEqual(fresh.code, undefined);
+		assert.strictEqual(fresh.admitted, false);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { openSealedMessage, sealMessage, SESSION_KEY_BYTES, SessionCipher } from '../sealing';
+
+suite('Sealed messages', () => {
+	const cipher: SessionCipher = { key: crypto.randomBytes(SESSION_KEY_BYTES), sessionId: 'ABC-DEF' };
+
+	// Flip one bit of the sealed payload at a byte offset
+	function tamper(sealed: string, offset: number): string {
+		const raw = Buffer.from(sealed, 'base64');
+		raw[offset] ^= 0x01;
+		return raw.toString('base64');
+	}
+
+	test('round-trips a message', () => {
+		const msg = { type: 'file-change', filePath: 'root/src/main.ts', update: 'AQID', timestamp: 1 };
+		const envelope = JSON.parse(sealMessage(JSON.stringify(msg), cipher));
+		assert.strictEqual(typeof envelope.sealed, 'string');
+		assert.deepStrictEqual(Object.keys(envelope), ['sealed']);
+		assert.deepStrictEqual(openSealedMessage(envelope.sealed, cipher), msg);
+	});
+
+	test('keeps only the relay\'s routing fields outside the sealed body', () => {
+		const msg = { type: 'kick-guest', participantId: 'guest-a', ban: true, reason: 'private' };
+		const { sealed, ...routing } = JSON.parse(sealMessage(JSON.stringify(msg), cipher));
+		assert.deepStrictEqual(routing, { type: 'kick-guest', participantId: 'guest-a', ban: true });
+		assert.deepStrictEqual(openSealedMessage(sealed, cipher), msg);
+	});
+
+	test('sends role identification and anything without a key in the clear', () => {
+		const identification = JSON.stringify({ type: 'role-identification', role: 'Guest' });
+		assert.strictEqual(sealMessage(identification, cipher), identification);
+		const text = JSON.stringify({ type: 'file-change' });
+		assert.strictEqual(sealMessage(text, null), text);
+		assert.strictEqual(openSealedMessage(JSON.parse(sealMessage(text, cipher)).sealed, null), null);
+	});
+
+	test('uses a fresh IV for every message', () => {
+		const text = JSON.stringify({ type: 'cursor-position', line: 1 });
+		assert.notStrictEqual(JSON.parse(sealMessage(text, cipher)).sealed, JSON.parse(sealMessage(text, cipher)).sealed);
+	});
+
+	test('rejects tampered IVs, tags and bodies', () => {
+		const { sealed } = JSON.parse(sealMessage(JSON.stringify({ type: 'file-change', text: 'hello' }), cipher));
+		for (const offset of [0, 12, 28, Buffer.from(sealed, 'base64').length - 1]) {
+			assert.strictEqual(openSealedMessage(tamper(sealed, offset), cipher), null, `byte ${offset}`);
+		}
+		assert.strictEqual(openSealedMessage(Buffer.from(sealed, 'base64').subarray(0, 20).toString('base64'), cipher), null);
+		assert.strictEqual(openSealedMessage('not base64 at all', cipher), null);
+	});
+
+	test('rejects messages sealed with another key or for another session', () => {
+		const { sealed } = JSON.parse(sealMessage(JSON.stringify({ type: 'file-change' }), cipher));
+		assert.strictEqual(openSealedMessage(sealed, { ...cipher, key: crypto.randomBytes(SESSION_KEY_BYTES) }), null);
+		assert.strictEqual(openSealedMessage(sealed, { ...cipher, sessionId: 'XYZ-XYZ' }), null);
+	});
+});